@@ -0,0 +1,55 @@
+import { sql } from "kysely";
+import { isRelationResult, POSITION_COLUMN } from "./relations-builder.js";
+
+// Lists the selections of a subquery by name, mirroring the column name
+// extraction of kysely's json helpers and leaving out the position column of
+// ordered subqueries.
+export function jsonColumns(node) {
+  return node.selections
+    .filter(({ selection }) => selectionName(selection) !== POSITION_COLUMN)
+    .map(({ selection }) => ({
+      name: selectionName(selection),
+      isRelation:
+        selection.kind === "AliasNode" && isRelationResult(selection.node),
+    }));
+}
+
+// Builds the arguments of json_object for every selection of a subquery
+// selected from as `table`. `wrapRelation` lets dialects that lose the json
+// type of nested relations in derived tables turn them back into json.
+export function jsonObjectArgs(node, table, wrapRelation = (ref) => ref) {
+  return jsonColumns(node).flatMap(({ name, isRelation }) => {
+    const ref = sql.ref(`${table}.${name}`);
+
+    return [sql.lit(name), isRelation ? wrapRelation(ref) : ref];
+  });
+}
+
+// Builds the arguments of json_object from values by key.
+export function jsonObjectEntries(values) {
+  return Object.entries(values).flatMap(([name, value]) => [
+    sql.lit(name),
+    value,
+  ]);
+}
+
+function selectionName(selection) {
+  if (selection.kind === "AliasNode") {
+    return selection.alias.name;
+  }
+
+  if (
+    selection.kind === "ReferenceNode" &&
+    selection.column.kind === "ColumnNode"
+  ) {
+    return selection.column.column.name;
+  }
+
+  if (selection.kind === "ColumnNode") {
+    return selection.column.name;
+  }
+
+  throw new Error(
+    "Relations can only handle explicit selections due to limitations of the json_object function. selectAll() is not allowed in the subquery."
+  );
+}
@@ -0,0 +1,1233 @@
+import {
+  type AliasedExpression,
+  type AnyColumnWithTable,
+  type Expression,
+  type ExpressionBuilder,
+  type ExtractTypeFromReferenceExpression,
+  type Insertable,
+  type Kysely,
+  type KyselyPlugin,
+  type RawBuilder,
+  type Selectable,
+  type SelectQueryBuilder,
+  type SelectType,
+  type SqlBool,
+  type StringReference,
+} from "kysely";
+
+/**
+ * A single column or a tuple of columns forming a composite key.
+ */
+type RelationKey<C extends string> = C | readonly [C, ...C[]];
+
+/**
+ * A key with the same number of columns as `Key`, so that composite keys are
+ * compared pairwise.
+ */
+type MatchingKey<Key, C extends string> = Key extends readonly unknown[]
+  ? { [I in keyof Key]: C }
+  : C;
+
+interface RelationConfig<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  Column extends RelationKey<AnyColumnWithTable<DB, Table>>,
+  Reference extends MatchingKey<Column, AnyColumnWithTable<DB, Target>> =
+    MatchingKey<Column, AnyColumnWithTable<DB, Target>>,
+> {
+  target: Target;
+  column: Column;
+  reference: Reference;
+}
+
+interface ThroughRelationConfig<
+  DB,
+  Table extends keyof DB & string,
+  Through extends keyof DB & string,
+  Target extends keyof DB & string,
+  Column extends RelationKey<AnyColumnWithTable<DB, Table>>,
+  Reference extends RelationKey<AnyColumnWithTable<DB, Target>>,
+  Pivot extends readonly (keyof DB[Through] & string)[] = [],
+> {
+  target: Target;
+  column: Column;
+  reference: Reference;
+  through: Through;
+  throughColumn: MatchingKey<Column, AnyColumnWithTable<DB, Through>>;
+  throughReference: MatchingKey<Reference, AnyColumnWithTable<DB, Through>>;
+  /**
+   * Columns of the through table to select with every target row, nested
+   * under its `pivot` key. Joins the through table, so each junction row gives
+   * its own target row.
+   */
+  pivot?: Pivot;
+  /**
+   * Filters the junction rows. Joins the through table like `pivot`.
+   */
+  customizeThrough?: (
+    qb: SelectQueryBuilder<DB, Through, {}>
+  ) => SelectQueryBuilder<DB, Through, {}>;
+}
+
+/**
+ * The `pivot` object of target rows, when the relation selects pivot columns.
+ */
+type PivotResult<
+  DB,
+  Through extends keyof DB & string,
+  Pivot extends readonly (keyof DB[Through] & string)[],
+> = [Pivot[number]] extends [never]
+  ? {}
+  : { pivot: { [C in Pivot[number]]: SelectType<DB[Through][C]> } };
+
+/**
+ * A relation from a parent table to polymorphic rows, which store the type of
+ * their parent next to its key.
+ */
+interface MorphConfig<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  Column extends RelationKey<AnyColumnWithTable<DB, Table>>,
+  Reference extends MatchingKey<Column, AnyColumnWithTable<DB, Target>> =
+    MatchingKey<Column, AnyColumnWithTable<DB, Target>>,
+> extends RelationConfig<DB, Table, Target, Column, Reference> {
+  typeColumn: AnyColumnWithTable<DB, Target>;
+  /**
+   * The value of the type column for rows of this table, the table name by
+   * default.
+   */
+  type?: string;
+}
+
+/**
+ * Maps each value of the type column to the key of its target table.
+ */
+type MorphTargets<DB> = Record<
+  string,
+  RelationKey<AnyColumnWithTable<DB, keyof DB & string>>
+>;
+
+interface MorphToConfig<
+  DB,
+  Table extends keyof DB & string,
+  Targets extends MorphTargets<DB>,
+> {
+  typeColumn: AnyColumnWithTable<DB, Table>;
+  column: MatchingKey<Targets[keyof Targets], AnyColumnWithTable<DB, Table>>;
+  targets: Targets;
+}
+
+type MorphTarget<DB, Reference> = (
+  Reference extends readonly (infer C)[] ? C : Reference
+) extends `${infer Target}.${string}`
+  ? Target & keyof DB & string
+  : never;
+
+type MorphSelectFunctions<
+  DB,
+  Table extends keyof DB & string,
+  Targets extends MorphTargets<DB>,
+> = {
+  [Type in keyof Targets]: SelectFunction<
+    DB,
+    Table,
+    MorphTarget<DB, Targets[Type]>,
+    any
+  >;
+};
+
+/**
+ * The row of whichever target the type column names, tagged with its `type`.
+ */
+type MorphResult<SelectFuncs> = {
+  [Type in keyof SelectFuncs]: SelectFuncs[Type] extends (
+    ...args: any[]
+  ) => SelectQueryBuilder<any, any, infer T>
+    ? Simplify<T & { type: Type }>
+    : never;
+}[keyof SelectFuncs];
+
+/**
+ * References the parent row from inside a relation subquery. Unqualified
+ * columns refer to the parent table.
+ */
+interface ParentReferenceBuilder<DB, Table extends keyof DB & string> {
+  ref<C extends StringReference<DB, Table>>(
+    column: C
+  ): RawBuilder<ExtractTypeFromReferenceExpression<DB, Table, C>>;
+}
+
+type CustomizeQueryFunction<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+> = (
+  eb: SelectQueryBuilder<DB, Target, {}>,
+  parent: ParentReferenceBuilder<DB, Table>
+) => SelectQueryBuilder<DB, Target, {}>;
+
+/**
+ * Selects from the target table. The selection can include the target table's
+ * own relations, nesting them to any depth.
+ */
+type SelectFunction<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  T,
+> = (
+  eb: SelectQueryBuilder<DB, Target, {}>,
+  parent: ParentReferenceBuilder<DB, Table>
+) => SelectQueryBuilder<DB, Target, T>;
+
+type RelationOrderBy<DB, Target extends keyof DB & string> =
+  | StringReference<DB, Target>
+  | readonly [StringReference<DB, Target>, "asc" | "desc"];
+
+/**
+ * Call time ordering and paging, applied per parent row.
+ */
+interface RelationQueryOptions<DB, Target extends keyof DB & string> {
+  orderBy?: readonly RelationOrderBy<DB, Target>[];
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Keyset pagination of a relation. `orderBy` should end with a unique column,
+ * and nulls come last in either direction.
+ */
+interface RelationPageOptions<DB, Target extends keyof DB & string> {
+  orderBy: readonly [
+    RelationOrderBy<DB, Target>,
+    ...RelationOrderBy<DB, Target>[],
+  ];
+  limit: number;
+  /**
+   * The `nextCursor` of the previous page, starting at the first page when
+   * left out.
+   */
+  cursor?: string | null;
+}
+
+interface RelationPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+type AliasedExpressionFactory<
+  DB,
+  Table extends keyof DB & string,
+  T,
+  RelationName extends string,
+> = (eb: ExpressionBuilder<DB, Table>) => AliasedExpression<T, RelationName>;
+
+/**
+ * The types that differ between dialects. Like kysely's `expressionType` these
+ * only exist in the type system.
+ */
+interface DialectTypes {
+  /**
+   * The result of `exists` selections, `0 | 1` on dialects without booleans.
+   */
+  existsResult: unknown;
+  /**
+   * Whether relations can be included with a `left join lateral`.
+   */
+  lateralJoins: boolean;
+}
+
+/**
+ * The types of an adapter that is only known at runtime, such as one picked by
+ * `detectAdapter`.
+ */
+type UnknownDialectTypes = { existsResult: SqlBool; lateralJoins: boolean };
+
+/**
+ * Builds the dialect specific SQL of relation subqueries.
+ */
+interface RelationsAdapter<Types extends DialectTypes = UnknownDialectTypes> {
+  readonly name: string;
+  readonly dialectTypes?: Types;
+  countAll(eb: ExpressionBuilder<any, any>): Expression<number>;
+  jsonArray(values: readonly Expression<unknown>[]): Expression<unknown>;
+  jsonArrayFrom(expr: SelectQueryBuilder<any, any, any>): Expression<unknown>;
+  jsonObject(values: Record<string, Expression<unknown>>): Expression<unknown>;
+  jsonObjectFrom(expr: SelectQueryBuilder<any, any, any>): Expression<unknown>;
+  /**
+   * Aggregates the rows of a subquery in the order of its position column.
+   */
+  orderedJsonArrayFrom(
+    expr: SelectQueryBuilder<any, any, any>
+  ): Expression<unknown>;
+  /**
+   * Selects whether a subquery has rows, for dialects without booleans.
+   */
+  exists?(
+    eb: ExpressionBuilder<any, any>,
+    subquery: SelectQueryBuilder<any, any, any>
+  ): Expression<unknown>;
+  /**
+   * Applies a limit and offset, for dialects without a limit clause.
+   */
+  limit?<QB extends SelectQueryBuilder<any, any, any>>(
+    qb: QB,
+    options: { limit?: number; offset?: number }
+  ): QB;
+  /**
+   * Selects the json of a relation as `relationName` from a lateral subquery.
+   * Lateral joins are only available when the adapter implements this.
+   */
+  lateralJsonFrom?(
+    relationName: string,
+    expr: SelectQueryBuilder<any, any, any>,
+    options: { many: boolean; ordered: boolean }
+  ): RawBuilder<unknown>;
+}
+
+type RelationAggregates<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  RelationName extends string,
+  Types extends DialectTypes,
+> = {
+  count: AliasedExpressionFactory<DB, Table, number, `${RelationName}Count`>;
+  exists: AliasedExpressionFactory<
+    DB,
+    Table,
+    Types["existsResult"],
+    `${RelationName}Exists`
+  >;
+  sum: <Alias extends string = `${RelationName}Sum`>(
+    column: StringReference<DB, Target>,
+    alias?: Alias
+  ) => AliasedExpressionFactory<
+    DB,
+    Table,
+    number | string | bigint | null,
+    Alias
+  >;
+  avg: <Alias extends string = `${RelationName}Avg`>(
+    column: StringReference<DB, Target>,
+    alias?: Alias
+  ) => AliasedExpressionFactory<DB, Table, number | string | null, Alias>;
+  min: <
+    C extends StringReference<DB, Target>,
+    Alias extends string = `${RelationName}Min`,
+  >(
+    column: C,
+    alias?: Alias
+  ) => AliasedExpressionFactory<
+    DB,
+    Table,
+    ExtractTypeFromReferenceExpression<DB, Target, C> | null,
+    Alias
+  >;
+  max: <
+    C extends StringReference<DB, Target>,
+    Alias extends string = `${RelationName}Max`,
+  >(
+    column: C,
+    alias?: Alias
+  ) => AliasedExpressionFactory<
+    DB,
+    Table,
+    ExtractTypeFromReferenceExpression<DB, Target, C> | null,
+    Alias
+  >;
+};
+
+type RelationFilters<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+> = {
+  whereHas: (
+    eb: ExpressionBuilder<DB, Table>,
+    customizeQuery?: CustomizeQueryFunction<DB, Table, Target>
+  ) => Expression<SqlBool>;
+  whereDoesntHave: (
+    eb: ExpressionBuilder<DB, Table>,
+    customizeQuery?: CustomizeQueryFunction<DB, Table, Target>
+  ) => Expression<SqlBool>;
+};
+
+type RelationHelpers<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  RelationName extends string,
+  Types extends DialectTypes,
+> = RelationAggregates<DB, Table, Target, RelationName, Types> &
+  RelationFilters<DB, Table, Target>;
+
+/**
+ * Includes a page of the relation, read by the `plugin` of the relations
+ * builder, which must be added to the query.
+ */
+type RelationPagination<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  RelationName extends string,
+  Types extends DialectTypes,
+  Pivot,
+> = {
+  paginate: <T>(
+    selectFunc: SelectFunction<DB, Table, Target, T>,
+    options: RelationPageOptions<DB, Target>
+  ) => RelationExpressionFactory<
+    DB,
+    Table,
+    Target,
+    RelationPage<T & Pivot>,
+    RelationName,
+    Types
+  >;
+};
+
+type RelationExpressionFactory<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  T,
+  RelationName extends string,
+  Types extends DialectTypes,
+> = AliasedExpressionFactory<DB, Table, T, RelationName> &
+  RelationHelpers<DB, Table, Target, RelationName, Types>;
+
+type KeyColumnType<
+  DB,
+  Table extends keyof DB & string,
+  C,
+> = C extends `${Table}.${infer Name extends keyof DB[Table] & string}`
+  ? SelectType<DB[Table][Name]>
+  : never;
+
+type KeyColumnName<Table extends string, Key> = (
+  Key extends readonly (infer C)[] ? C : Key
+) extends `${Table}.${infer Name}`
+  ? Name
+  : never;
+
+type KeyValue<
+  DB,
+  Table extends keyof DB & string,
+  Key,
+> = Key extends readonly unknown[]
+  ? { [I in keyof Key]: KeyColumnType<DB, Table, Key[I]> }
+  : KeyColumnType<DB, Table, Key>;
+
+/**
+ * A key given as a row holding its columns, as a value, or as a tuple of
+ * values for composite keys.
+ */
+type KeyInput<DB, Table extends keyof DB & string, Key> =
+  | {
+      [Name in KeyColumnName<Table, Key> & keyof DB[Table]]: SelectType<
+        DB[Table][Name]
+      >;
+    }
+  | KeyValue<DB, Table, Key>;
+
+/**
+ * Inserts and links target rows with the foreign key, and the type column of
+ * polymorphic relations, filled in from the parent.
+ */
+type RelationWrites<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  Column,
+  Reference,
+  Filled extends string = never,
+> = {
+  create: (
+    db: Kysely<DB>,
+    parent: KeyInput<DB, Table, Column>,
+    rows:
+      | NewRow<DB, Target, KeyColumnName<Target, Reference> | Filled>
+      | readonly NewRow<DB, Target, KeyColumnName<Target, Reference> | Filled>[]
+  ) => Promise<void>;
+  /**
+   * Points the target rows matching `where` at the parent.
+   */
+  connect: (
+    db: Kysely<DB>,
+    parent: KeyInput<DB, Table, Column>,
+    where: RowFilter<DB, Target>
+  ) => Promise<void>;
+  /**
+   * Sets the foreign key of the parent's target rows to null, of the ones
+   * matching `where` when it's given.
+   */
+  disconnect: (
+    db: Kysely<DB>,
+    parent: KeyInput<DB, Table, Column>,
+    where?: RowFilter<DB, Target>
+  ) => Promise<void>;
+};
+
+/**
+ * Sets the foreign key of the rows matching `where` to a target, or to null
+ * when the key is nullable.
+ */
+type BelongsToWrites<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  Reference,
+  Nullable extends boolean,
+> = {
+  associate: (
+    db: Kysely<DB>,
+    where: RowFilter<DB, Table>,
+    target: KeyInput<DB, Target, Reference>
+  ) => Promise<void>;
+} & (Nullable extends true
+  ? {
+      dissociate: (
+        db: Kysely<DB>,
+        where: RowFilter<DB, Table>
+      ) => Promise<void>;
+    }
+  : {});
+
+/**
+ * Picks existing rows to write, whose keys the relation doesn't know.
+ */
+type RowFilter<DB, Table extends keyof DB & string> = (
+  eb: ExpressionBuilder<DB, Table>
+) => Expression<SqlBool>;
+
+type NewRow<DB, Target extends keyof DB & string, Filled extends string> = Omit<
+  Insertable<DB[Target]>,
+  Filled
+>;
+
+/**
+ * Links parents to target rows through the junction table. The statements run
+ * on the given instance, so pass a transaction to apply them together.
+ */
+type ThroughRelationWrites<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  Column,
+  Reference,
+> = {
+  attach: (
+    db: Kysely<DB>,
+    parent: KeyInput<DB, Table, Column>,
+    targets: readonly KeyInput<DB, Target, Reference>[]
+  ) => Promise<void>;
+  /**
+   * Detaches every target when none are given.
+   */
+  detach: (
+    db: Kysely<DB>,
+    parent: KeyInput<DB, Table, Column>,
+    targets?: readonly KeyInput<DB, Target, Reference>[]
+  ) => Promise<void>;
+  /**
+   * Attaches the missing targets and detaches the others.
+   */
+  sync: (
+    db: Kysely<DB>,
+    parent: KeyInput<DB, Table, Column>,
+    targets: readonly KeyInput<DB, Target, Reference>[]
+  ) => Promise<{
+    attached: KeyValue<DB, Target, Reference>[];
+    detached: KeyValue<DB, Target, Reference>[];
+  }>;
+};
+
+/**
+ * A `belongsTo` relation can only be missing when its key is nullable.
+ */
+type BelongsToCardinality<DB, Table extends keyof DB & string, Column> =
+  null extends KeyColumnType<
+    DB,
+    Table,
+    Column extends readonly (infer C)[] ? C : Column
+  >
+    ? "one"
+    : "oneNotNull";
+
+type RelationCardinality = "one" | "oneNotNull" | "many";
+
+type RelationResult<
+  T,
+  Cardinality extends RelationCardinality,
+> = Cardinality extends "many" ? T[] : Cardinality extends "one" ? T | null : T;
+
+/**
+ * Includes the relation with a `left join lateral` instead of a subquery in
+ * the select list, on dialects with lateral joins.
+ */
+type LateralJoin<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  RelationName extends string,
+  Cardinality extends RelationCardinality,
+  Pivot,
+> = {
+  joinLateral: <O, T>(
+    qb: SelectQueryBuilder<DB, Table, O>,
+    selectFunc: SelectFunction<DB, Table, Target, T>,
+    ...options: Cardinality extends "many"
+      ? [options?: RelationQueryOptions<DB, Target>]
+      : []
+  ) => SelectQueryBuilder<
+    DB,
+    Table,
+    O & { [K in RelationName]: RelationResult<T & Pivot, Cardinality> }
+  >;
+};
+
+type RelationKind = keyof RelationFunctions<any, any, any>;
+
+/**
+ * Describes a relation with plain data. Columns are qualified with their
+ * table and keys are always lists of columns.
+ */
+interface RelationMetadata {
+  name: string;
+  kind: Exclude<RelationKind, "morphTo">;
+  table: string;
+  target: string;
+  cardinality: RelationCardinality;
+  /**
+   * Whether the result is null when no row matches. `null` for `belongsTo`,
+   * whose result is only nullable when its key columns are.
+   */
+  nullable: boolean | null;
+  column: string[];
+  reference: string[];
+  through?: {
+    table: string;
+    column: string[];
+    reference: string[];
+    pivot: string[];
+  };
+  /**
+   * The type column and its value for this table, for `morphOne` and
+   * `morphMany`.
+   */
+  typeColumn?: string;
+  type?: string;
+  /**
+   * The relations a relation chain is made of.
+   */
+  chain?: RelationMetadata[];
+}
+
+interface MorphToMetadata {
+  name: string;
+  kind: "morphTo";
+  table: string;
+  cardinality: "one";
+  nullable: true;
+  column: string[];
+  typeColumn: string;
+  targets: Record<string, { target: string; reference: string[] }>;
+}
+
+/**
+ * A relation returned by the relation functions. Call it with a select
+ * function to include the relation in a query.
+ */
+type RelationInclude<
+  DB,
+  Table extends keyof DB & string,
+  Target extends keyof DB & string,
+  RelationName extends string,
+  Cardinality extends RelationCardinality,
+  Types extends DialectTypes,
+  Writes = {},
+  Pivot = {},
+> = RelationHelpers<DB, Table, Target, RelationName, Types> &
+  Writes &
+  (Cardinality extends "many"
+    ? RelationPagination<DB, Table, Target, RelationName, Types, Pivot>
+    : {}) &
+  (Types["lateralJoins"] extends true
+    ? LateralJoin<DB, Table, Target, RelationName, Cardinality, Pivot>
+    : {}) & {
+    /**
+     * Describes the relation for the relational query API. Like kysely's
+     * `expressionType` this is only a type and is never set at runtime.
+     */
+    readonly relationType?: {
+      target: Target;
+      cardinality: Cardinality;
+      pivot: Pivot;
+    };
+    readonly metadata: RelationMetadata;
+    /**
+     * The same relation without the default scope of its target and through
+     * tables, see `RelationsBuilderOptions.scopes`.
+     */
+    unscoped: RelationInclude<
+      DB,
+      Table,
+      Target,
+      RelationName,
+      Cardinality,
+      Types,
+      Writes,
+      Pivot
+    >;
+  } & (<T>(
+    selectFunc: SelectFunction<DB, Table, Target, T>,
+    ...options: Cardinality extends "many"
+      ? [options?: RelationQueryOptions<DB, Target>]
+      : []
+  ) => RelationExpressionFactory<
+    DB,
+    Table,
+    Target,
+    RelationResult<T & Pivot, Cardinality>,
+    RelationName,
+    Types
+  >);
+
+/**
+ * Relations returned by the relation functions, from the parent table to the
+ * final target.
+ */
+type RelationChain = readonly [ChainHop, ...ChainHop[]];
+
+type ChainHop = {
+  readonly relationType?: {
+    target: string;
+    cardinality: RelationCardinality;
+    pivot: unknown;
+  };
+};
+
+type ChainTarget<DB, Hops> = Hops extends readonly [...unknown[], infer Last]
+  ? RelationType<Last>["target"] & keyof DB & string
+  : never;
+
+type RelationFunctions<
+  DB,
+  Table extends keyof DB & string,
+  Types extends DialectTypes,
+> = {
+  hasOne: <
+    RelationName extends string,
+    Target extends keyof DB & string,
+    Column extends RelationKey<AnyColumnWithTable<DB, Table>>,
+    Reference extends MatchingKey<Column, AnyColumnWithTable<DB, Target>>,
+  >(
+    relationName: RelationName,
+    config: RelationConfig<DB, Table, Target, Column, Reference>,
+    customizeQuery?: CustomizeQueryFunction<DB, Table, Target>
+  ) => RelationInclude<
+    DB,
+    Table,
+    Target,
+    RelationName,
+    "one",
+    Types,
+    RelationWrites<DB, Table, Target, Column, Reference>
+  >;
+  hasOneNotNull: <
+    RelationName extends string,
+    Target extends keyof DB & string,
+    Column extends RelationKey<AnyColumnWithTable<DB, Table>>,
+    Reference extends MatchingKey<Column, AnyColumnWithTable<DB, Target>>,
+  >(
+    relationName: RelationName,
+    config: RelationConfig<DB, Table, Target, Column, Reference>,
+    customizeQuery?: CustomizeQueryFunction<DB, Table, Target>
+  ) => RelationInclude<
+    DB,
+    Table,
+    Target,
+    RelationName,
+    "oneNotNull",
+    Types,
+    RelationWrites<DB, Table, Target, Column, Reference>
+  >;
+  belongsTo: <
+    RelationName extends string,
+    Target extends keyof DB & string,
+    Column extends RelationKey<AnyColumnWithTable<DB, Table>>,
+    Reference extends MatchingKey<Column, AnyColumnWithTable<DB, Target>>,
+  >(
+    relationName: RelationName,
+    config: RelationConfig<DB, Table, Target, Column, Reference>,
+    customizeQuery?: CustomizeQueryFunction<DB, Table, Target>
+  ) => RelationInclude<
+    DB,
+    Table,
+    Target,
+    RelationName,
+    BelongsToCardinality<DB, Table, Column>,
+    Types,
+    BelongsToWrites<DB, Table, Target, Reference, true>
+  >;
+  belongsToNotNull: <
+    RelationName extends string,
+    Target extends keyof DB & string,
+    Column extends RelationKey<AnyColumnWithTable<DB, Table>>,
+    Reference extends MatchingKey<Column, AnyColumnWithTable<DB, Target>>,
+  >(
+    relationName: RelationName,
+    config: RelationConfig<DB, Table, Target, Column, Reference>,
+    customizeQuery?: CustomizeQueryFunction<DB, Table, Target>
+  ) => RelationInclude<
+    DB,
+    Table,
+    Target,
+    RelationName,
+    "oneNotNull",
+    Types,
+    BelongsToWrites<DB, Table, Target, Reference, false>
+  >;
+  hasMany: <
+    RelationName extends string,
+    Target extends keyof DB & string,
+    Column extends RelationKey<AnyColumnWithTable<DB, Table>>,
+    Reference extends MatchingKey<Column, AnyColumnWithTable<DB, Target>>,
+  >(
+    relationName: RelationName,
+    config: RelationConfig<DB, Table, Target, Column, Reference>,
+    configureQuery?: CustomizeQueryFunction<DB, Table, Target>
+  ) => RelationInclude<
+    DB,
+    Table,
+    Target,
+    RelationName,
+    "many",
+    Types,
+    RelationWrites<DB, Table, Target, Column, Reference>
+  >;
+  hasManyThrough: {
+    <
+      RelationName extends string,
+      Target extends keyof DB & string,
+      Through extends keyof DB & string,
+      Column extends RelationKey<AnyColumnWithTable<DB, Table>>,
+      Reference extends RelationKey<AnyColumnWithTable<DB, Target>>,
+      const Pivot extends readonly (keyof DB[Through] & string)[] = [],
+    >(
+      relationName: RelationName,
+      config: ThroughRelationConfig<
+        DB,
+        Table,
+        Through,
+        Target,
+        Column,
+        Reference,
+        Pivot
+      >,
+      configureQuery?: CustomizeQueryFunction<DB, Table, Target>
+    ): RelationInclude<
+      DB,
+      Table,
+      Target,
+      RelationName,
+      "many",
+      Types,
+      ThroughRelationWrites<DB, Table, Target, Column, Reference>,
+      PivotResult<DB, Through, Pivot>
+    >;
+    /**
+     * Chains relations, each starting at the target of the one before it, into
+     * a relation returning the rows of the last target.
+     */
+    <RelationName extends string, const Hops extends RelationChain>(
+      relationName: RelationName,
+      hops: Hops,
+      configureQuery?: CustomizeQueryFunction<DB, Table, ChainTarget<DB, Hops>>
+    ): RelationInclude<
+      DB,
+      Table,
+      ChainTarget<DB, Hops>,
+      RelationName,
+      "many",
+      Types
+    >;
+  };
+  /**
+   * Chains relations like `hasManyThrough`, returning a single row of the last
+   * target.
+   */
+  hasOneThrough: <
+    RelationName extends string,
+    const Hops extends RelationChain,
+  >(
+    relationName: RelationName,
+    hops: Hops,
+    customizeQuery?: CustomizeQueryFunction<DB, Table, ChainTarget<DB, Hops>>
+  ) => RelationInclude<
+    DB,
+    Table,
+    ChainTarget<DB, Hops>,
+    RelationName,
+    "one",
+    Types
+  >;
+  morphOne: <
+    RelationName extends string,
+    Target extends keyof DB & string,
+    Column extends RelationKey<AnyColumnWithTable<DB, Table>>,
+    Reference extends MatchingKey<Column, AnyColumnWithTable<DB, Target>>,
+    TypeColumn extends AnyColumnWithTable<DB, Target>,
+  >(
+    relationName: RelationName,
+    config: MorphConfig<DB, Table, Target, Column, Reference> & {
+      typeColumn: TypeColumn;
+    },
+    customizeQuery?: CustomizeQueryFunction<DB, Table, Target>
+  ) => RelationInclude<
+    DB,
+    Table,
+    Target,
+    RelationName,
+    "one",
+    Types,
+    RelationWrites<
+      DB,
+      Table,
+      Target,
+      Column,
+      Reference,
+      KeyColumnName<Target, TypeColumn>
+    >
+  >;
+  morphMany: <
+    RelationName extends string,
+    Target extends keyof DB & string,
+    Column extends RelationKey<AnyColumnWithTable<DB, Table>>,
+    Reference extends MatchingKey<Column, AnyColumnWithTable<DB, Target>>,
+    TypeColumn extends AnyColumnWithTable<DB, Target>,
+  >(
+    relationName: RelationName,
+    config: MorphConfig<DB, Table, Target, Column, Reference> & {
+      typeColumn: TypeColumn;
+    },
+    configureQuery?: CustomizeQueryFunction<DB, Table, Target>
+  ) => RelationInclude<
+    DB,
+    Table,
+    Target,
+    RelationName,
+    "many",
+    Types,
+    RelationWrites<
+      DB,
+      Table,
+      Target,
+      Column,
+      Reference,
+      KeyColumnName<Target, TypeColumn>
+    >
+  >;
+  morphTo: <
+    RelationName extends string,
+    const Targets extends MorphTargets<DB>,
+  >(
+    relationName: RelationName,
+    config: MorphToConfig<DB, Table, Targets>
+  ) => MorphToInclude<DB, Table, Targets, RelationName>;
+};
+
+type MorphToInclude<
+  DB,
+  Table extends keyof DB & string,
+  Targets extends MorphTargets<DB>,
+  RelationName extends string,
+> = {
+  unscoped: MorphToInclude<DB, Table, Targets, RelationName>;
+  readonly metadata: MorphToMetadata;
+} & (<SelectFuncs extends MorphSelectFunctions<DB, Table, Targets>>(
+  selectFuncs: SelectFuncs
+) => AliasedExpressionFactory<
+  DB,
+  Table,
+  MorphResult<SelectFuncs> | null,
+  RelationName
+>);
+
+/**
+ * Restores the type of a column from the json value of a nested relation.
+ */
+type ColumnDeserializers<DB> = {
+  [Table in keyof DB]?: {
+    [Column in keyof DB[Table]]?: (
+      value: unknown
+    ) => NonNullable<SelectType<DB[Table][Column]>>;
+  };
+};
+
+/**
+ * Conditions applied to every relation subquery selecting from a table.
+ */
+type DefaultScopes<DB> = {
+  [Table in keyof DB & string]?: (
+    qb: SelectQueryBuilder<DB, Table, {}>
+  ) => SelectQueryBuilder<DB, Table, {}>;
+};
+
+interface RelationsBuilderOptions<DB> {
+  deserializers?: ColumnDeserializers<DB>;
+  /**
+   * Default scopes by table, such as `deleted_at is null` for soft deleted
+   * rows. They apply to every relation targeting the table and to the
+   * junction table of `hasManyThrough`. Use a relation's `unscoped` or the
+   * `unscoped` option of relational queries to leave them out.
+   */
+  scopes?: DefaultScopes<DB>;
+  /**
+   * Throws when a single row relation matches more than one row, or when a
+   * `NotNull` relation matches none. The checks run in `plugin`, which must be
+   * added to the query.
+   */
+  strict?: boolean;
+}
+
+interface RelationsBuilder<
+  DB,
+  Types extends DialectTypes = UnknownDialectTypes,
+> {
+  <Table extends keyof DB & string, T>(
+    table: Table,
+    relationBuilder: (
+      relationFunctions: RelationFunctions<DB, Table, Types>
+    ) => T
+  ): T;
+  /**
+   * Deserializes the columns of nested relations in query results, see
+   * `RelationsBuilderOptions.deserializers`.
+   */
+  plugin: KyselyPlugin;
+  /**
+   * Describes the relations defined for a table by name, or the relations of
+   * every table when no table is given.
+   */
+  describe(table: keyof DB & string): DescribedRelations;
+  describe(): { [Table in keyof DB & string]?: DescribedRelations };
+  /**
+   * Prints the described relations as a Mermaid entity relationship diagram.
+   */
+  toMermaid(): string;
+  /**
+   * Checks that the tables and columns of every described relation exist in
+   * the database, rejecting with all missing ones.
+   */
+  validate(db: Kysely<any>): Promise<void>;
+}
+
+type DescribedRelations = Record<string, RelationMetadata | MorphToMetadata>;
+
+/**
+ * The relations of `Table`, as returned by the relations builder, leaving out
+ * `morphTo` relations.
+ */
+type RelationsOf<Schema, Table> = Table extends keyof Schema
+  ? {
+      [
+        R in keyof Schema[Table] as [RelationType<Schema[Table][R]>] extends [
+          never,
+        ]
+          ? never
+          : R
+      ]: Schema[Table][R];
+    }
+  : {};
+
+type RelationType<R> =
+  NonNullable<R> extends {
+    readonly relationType?: infer Type extends {
+      target: string;
+      cardinality: RelationCardinality;
+      pivot: unknown;
+    };
+  }
+    ? Type
+    : never;
+
+type FindConfig<DB, Schema, Table extends keyof DB & string> = {
+  columns?: { [C in keyof DB[Table]]?: boolean };
+  where?: (eb: ExpressionBuilder<DB, Table>) => Expression<SqlBool>;
+  orderBy?: readonly RelationOrderBy<DB, Table>[];
+  limit?: number;
+  offset?: number;
+  with?: WithConfig<DB, Schema, Table>;
+};
+
+type WithConfig<DB, Schema, Table extends keyof DB & string> = {
+  [R in keyof RelationsOf<Schema, Table>]?:
+    | true
+    | (FindConfig<
+        DB,
+        Schema,
+        RelationType<RelationsOf<Schema, Table>[R]>["target"] &
+          keyof DB &
+          string
+      > & {
+        /**
+         * Leaves out the default scopes of the relation's tables.
+         */
+        unscoped?: boolean;
+      });
+};
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type SelectedColumns<
+  DB,
+  Table extends keyof DB & string,
+  Config,
+> = Config extends { columns: infer Columns }
+  ? {
+      [
+        C in keyof Columns & keyof DB[Table] as Columns[C] extends true
+          ? C
+          : never
+      ]: SelectType<DB[Table][C]>;
+    }
+  : Selectable<DB[Table]>;
+
+type WithResult<
+  DB,
+  Schema,
+  Table extends keyof DB & string,
+  Config,
+> = Config extends { with: infer With }
+  ? {
+      [R in keyof With & keyof RelationsOf<Schema, Table>]: RelationResult<
+        FindResult<
+          DB,
+          Schema,
+          RelationType<RelationsOf<Schema, Table>[R]>["target"] &
+            keyof DB &
+            string,
+          With[R]
+        > &
+          RelationType<RelationsOf<Schema, Table>[R]>["pivot"],
+        RelationType<RelationsOf<Schema, Table>[R]>["cardinality"]
+      >;
+    }
+  : {};
+
+type FindResult<DB, Schema, Table extends keyof DB & string, Config> = Simplify<
+  SelectedColumns<DB, Table, Config> & WithResult<DB, Schema, Table, Config>
+>;
+
+interface LoadOptions {
+  /**
+   * The number of parent keys per query, 500 by default. Larger parent sets
+   * are loaded in several queries to stay below parameter limits.
+   */
+  chunkSize?: number;
+}
+
+type RelationalQuery<DB, Schema> = {
+  [Table in keyof DB & string]: {
+    findMany<const Config extends FindConfig<DB, Schema, Table>>(
+      config?: Config
+    ): Promise<FindResult<DB, Schema, Table, Config>[]>;
+    findFirst<const Config extends FindConfig<DB, Schema, Table>>(
+      config?: Config
+    ): Promise<FindResult<DB, Schema, Table, Config> | undefined>;
+    /**
+     * Loads relations onto rows that were already fetched, with one query per
+     * relation and level instead of json subqueries. Limits and offsets of
+     * nested relations are applied per parent after loading.
+     */
+    load<Row extends object, const With extends WithConfig<DB, Schema, Table>>(
+      rows: readonly Row[],
+      relations: With,
+      options?: LoadOptions
+    ): Promise<Simplify<Row & WithResult<DB, Schema, Table, { with: With }>>[]>;
+  };
+};
+
+/**
+ * Loads a relation of single parent rows, batching the parents requested
+ * within a tick into one query and caching the results by parent key.
+ */
+interface RelationLoader<Result> {
+  /**
+   * Loads the relation of a row holding the columns it's keyed on.
+   */
+  load(parent: object): Promise<Result>;
+  loadMany(parents: readonly object[]): Promise<Result[]>;
+  /**
+   * Removes a parent from the cache, so it's loaded again.
+   */
+  clear(parent: object): this;
+  clearAll(): this;
+}
+
+type RelationLoaders<DB, Schema> = {
+  [Table in keyof DB & string]: {
+    [R in keyof RelationsOf<Schema, Table>]: RelationLoader<
+      WithResult<DB, Schema, Table, { with: { [K in R]: true } }>[R]
+    >;
+  };
+};
+
+/**
+ * Creates a relations builder for the dialect of `options.adapter`. The
+ * dialect subpaths export builders with their adapter already set.
+ */
+declare function createRelationsBuilder<
+  DB,
+  Types extends DialectTypes = UnknownDialectTypes,
+>(
+  options: RelationsBuilderOptions<DB> & { adapter: RelationsAdapter<Types> }
+): RelationsBuilder<DB, Types>;
+
+/**
+ * Creates a relational query API from the relations of each table, e.g.
+ * `createQuery(db, { users: userRelations }).users.findMany({ with: { posts: true } })`.
+ */
+declare function createQuery<DB, Schema>(
+  db: Kysely<DB>,
+  schema: Schema,
+  options?: {
+    /**
+     * Pages root queries for dialects without a limit clause, or with one that
+     * an offset needs.
+     */
+    adapter?: RelationsAdapter<any>;
+  }
+): RelationalQuery<DB, Schema>;
+
+/**
+ * Creates relation loaders by table and relation name for resolvers that load
+ * the relations of one parent at a time, such as GraphQL resolvers. Create
+ * them once per request, as results are cached.
+ */
+declare function createLoaders<DB, Schema>(
+  db: Kysely<DB>,
+  schema: Schema,
+  options?: LoadOptions
+): RelationLoaders<DB, Schema>;
+
+export type {
+  DescribedRelations,
+  DialectTypes,
+  MorphToMetadata,
+  RelationalQuery,
+  RelationLoader,
+  RelationLoaders,
+  RelationMetadata,
+  RelationPage,
+  RelationPageOptions,
+  RelationsAdapter,
+  RelationsBuilder,
+  RelationsBuilderOptions,
+};
+export { createLoaders, createQuery, createRelationsBuilder };
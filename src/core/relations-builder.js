@@ -0,0 +1,2350 @@
+import {
+  AliasNode,
+  expressionBuilder,
+  FromNode,
+  IdentifierNode,
+  OperationNodeTransformer,
+  sql,
+  TableNode,
+} from "kysely";
+import { printMermaid } from "./relations-diagram.js";
+
+export function createRelationsBuilder(options) {
+  if (!options?.adapter) {
+    throw new Error("createRelationsBuilder requires a dialect adapter");
+  }
+
+  // Relations by name and table, for describing the relations of a schema.
+  const registry = new Map();
+  const relationFunctions = (table) =>
+    Object.fromEntries(
+      Object.entries({
+        hasOne,
+        hasOneNotNull,
+        belongsTo,
+        belongsToNotNull,
+        hasMany,
+        hasManyThrough,
+        hasOneThrough,
+        morphOne,
+        morphMany,
+        morphTo,
+      }).map(([kind, relationFunction]) => [
+        kind,
+        (relationName, config, customizeQuery) => {
+          validateRelationConfig(kind, table, relationName, config);
+
+          const build = (scopes) =>
+            relationFunction(relationName, config, customizeQuery, {
+              ...options,
+              scopes,
+            });
+          // `unscoped` is the same relation without the default scopes.
+          const unscoped = build(undefined);
+          const metadata = relationMetadata(kind, table, relationName, config);
+          Object.assign(unscoped, { unscoped, metadata });
+
+          return options.scopes
+            ? Object.assign(build(options.scopes), { unscoped, metadata })
+            : unscoped;
+        },
+      ])
+    );
+  const relations = (table, relationBuilder) => {
+    const result = relationBuilder(relationFunctions(table));
+    const described = Object.entries(result ?? {}).filter(
+      ([, include]) => include?.metadata
+    );
+
+    // Relations of a table defined in several calls are described together.
+    registry.set(table, {
+      ...registry.get(table),
+      ...Object.fromEntries(described),
+    });
+
+    return result;
+  };
+  const describe = (table) => {
+    if (table !== undefined) {
+      return describeTable(registry.get(table));
+    }
+
+    return Object.fromEntries(
+      [...registry].map(([table, includes]) => [table, describeTable(includes)])
+    );
+  };
+
+  return Object.assign(relations, {
+    plugin: new RelationsDeserializerPlugin(options.deserializers ?? {}),
+    describe,
+    toMermaid: () => printMermaid(describe()),
+    validate: (db) => validateSchema(db, describe()),
+  });
+}
+
+// Checks that the keys of a relation belong to the tables they're matched
+// against, which TypeScript can't do for configs built from untyped schemas.
+function validateRelationConfig(kind, table, relationName, config) {
+  const fail = (message) => {
+    throw new Error(`Relation "${relationName}" of "${table}" ${message}`);
+  };
+  // Checked first, so the checks below can rely on the keys being there.
+  const expectKey = (option, key) => {
+    const columns = columnList(key);
+
+    if (
+      columns.length === 0 ||
+      columns.some((column) => typeof column !== "string")
+    ) {
+      fail(
+        `expects \`${option}\` to be a column or a list of columns, got ${JSON.stringify(key)}`
+      );
+    }
+  };
+  const expectTable = (option, value) => {
+    if (typeof value !== "string") {
+      fail(`expects \`${option}\` to be a table, got ${JSON.stringify(value)}`);
+    }
+  };
+  const expectColumns = (option, key, expected) => {
+    for (const column of columnList(key)) {
+      if (columnTable(column) !== expected) {
+        fail(
+          `expects \`${option}\` to be columns of "${expected}", got "${column}"`
+        );
+      }
+    }
+  };
+  const expectLength = (option, key, other) => {
+    if (columnList(key).length !== columnList(other).length) {
+      fail(
+        `expects \`${option}\` to have ${columnList(other).length} column(s), got ${columnList(key).length}`
+      );
+    }
+  };
+
+  if (typeof config !== "object" || config === null) {
+    fail(`expects a config, got ${JSON.stringify(config)}`);
+  }
+
+  // Relation chains are made of relations that were validated already.
+  if (Array.isArray(config)) {
+    const first = config[0]?.metadata;
+
+    if (first && first.table !== table) {
+      fail(`starts with a relation of "${first.table}"`);
+    }
+
+    return;
+  }
+
+  expectKey("column", config.column);
+
+  if (kind === "morphTo") {
+    expectKey("typeColumn", config.typeColumn);
+
+    if (typeof config.targets !== "object" || config.targets === null) {
+      fail(
+        `expects \`targets\` to map types to columns, got ${JSON.stringify(config.targets)}`
+      );
+    }
+
+    for (const [type, reference] of Object.entries(config.targets)) {
+      expectKey(`targets.${type}`, reference);
+    }
+  } else {
+    expectTable("target", config.target);
+    expectKey("reference", config.reference);
+  }
+
+  if (kind === "morphOne" || kind === "morphMany") {
+    expectKey("typeColumn", config.typeColumn);
+  }
+
+  if (kind === "hasManyThrough" || kind === "hasOneThrough") {
+    expectTable("through", config.through);
+    expectKey("throughColumn", config.throughColumn);
+    expectKey("throughReference", config.throughReference);
+  }
+
+  expectColumns("column", config.column, table);
+
+  if (kind === "morphTo") {
+    expectColumns("typeColumn", config.typeColumn, table);
+
+    for (const [type, reference] of Object.entries(config.targets)) {
+      expectColumns(`targets.${type}`, reference, keyTable(reference));
+      expectLength(`targets.${type}`, reference, config.column);
+    }
+
+    return;
+  }
+
+  expectColumns("reference", config.reference, config.target);
+  expectLength("reference", config.reference, config.column);
+
+  if (config.typeColumn) {
+    expectColumns("typeColumn", config.typeColumn, config.target);
+  }
+
+  if (config.through) {
+    expectColumns("throughColumn", config.throughColumn, config.through);
+    expectColumns("throughReference", config.throughReference, config.through);
+    expectLength("throughColumn", config.throughColumn, config.column);
+    expectLength("throughReference", config.throughReference, config.reference);
+  }
+}
+
+// Checks the described relations against the tables and columns of a
+// database, reporting every missing one at once.
+async function validateSchema(db, tables) {
+  const columnsByTable = new Map();
+
+  for (const { schema, name, columns } of await db.introspection.getTables()) {
+    const names = new Set(columns.map((column) => column.name));
+
+    columnsByTable.set(name, names);
+
+    if (schema) {
+      columnsByTable.set(`${schema}.${name}`, names);
+    }
+  }
+
+  const problems = new Set();
+
+  for (const relations of Object.values(tables)) {
+    for (const metadata of Object.values(relations)) {
+      const relation = `Relation "${metadata.name}" of "${metadata.table}"`;
+
+      for (const column of relationColumns(metadata)) {
+        const table = columnTable(column);
+        const columns = columnsByTable.get(table);
+
+        if (!columns) {
+          problems.add(`${relation} references the missing table "${table}"`);
+        } else if (!columns.has(column.slice(table.length + 1))) {
+          problems.add(`${relation} references the missing column "${column}"`);
+        }
+      }
+    }
+  }
+
+  if (problems.size > 0) {
+    throw new Error(
+      `Relations don't match the database schema:\n${[...problems]
+        .map((problem) => `  ${problem}`)
+        .join("\n")}`
+    );
+  }
+}
+
+// Lists every column a relation reads, qualified with its table.
+function relationColumns(metadata) {
+  if (metadata.chain) {
+    return metadata.chain.flatMap(relationColumns);
+  }
+
+  const { through } = metadata;
+
+  return [
+    ...metadata.column,
+    ...(metadata.reference ?? []),
+    ...Object.values(metadata.targets ?? {}).flatMap(
+      ({ reference }) => reference
+    ),
+    ...(metadata.typeColumn ? [metadata.typeColumn] : []),
+    ...(through
+      ? [
+          ...through.column,
+          ...through.reference,
+          ...through.pivot.map((column) => `${through.table}.${column}`),
+        ]
+      : []),
+  ];
+}
+
+function describeTable(includes = {}) {
+  return Object.fromEntries(
+    Object.entries(includes).map(([name, include]) => [name, include.metadata])
+  );
+}
+
+const relationCardinalities = {
+  hasOne: "one",
+  hasOneNotNull: "oneNotNull",
+  belongsTo: "one",
+  belongsToNotNull: "oneNotNull",
+  hasMany: "many",
+  hasManyThrough: "many",
+  hasOneThrough: "one",
+  morphOne: "one",
+  morphMany: "many",
+  morphTo: "one",
+};
+
+// Describes a relation with plain data, so it can be listed and serialized
+// without building queries.
+function relationMetadata(kind, table, name, config) {
+  const cardinality = relationCardinalities[kind];
+  const metadata = {
+    name,
+    kind,
+    table,
+    cardinality,
+    // A belongsTo result is only null when its key columns are nullable, which
+    // the types know but the relation doesn't.
+    nullable: kind === "belongsTo" ? null : cardinality === "one",
+  };
+
+  if (kind === "morphTo") {
+    return {
+      ...metadata,
+      column: columnList(config.column),
+      typeColumn: config.typeColumn,
+      targets: Object.fromEntries(
+        Object.entries(config.targets).map(([type, reference]) => [
+          type,
+          { target: keyTable(reference), reference: columnList(reference) },
+        ])
+      ),
+    };
+  }
+
+  // Relation chains are described by the relations they're made of.
+  if (Array.isArray(config)) {
+    const chain = config.map((hop) => hop.metadata);
+
+    return {
+      ...metadata,
+      target: chain.at(-1).target,
+      column: chain[0].column,
+      reference: chain.at(-1).reference,
+      chain,
+    };
+  }
+
+  return {
+    ...metadata,
+    target: config.target,
+    column: columnList(config.column),
+    reference: columnList(config.reference),
+    ...(config.through && {
+      through: {
+        table: config.through,
+        column: columnList(config.throughColumn),
+        reference: columnList(config.throughReference),
+        pivot: config.pivot ?? [],
+      },
+    }),
+    ...(config.typeColumn && {
+      typeColumn: config.typeColumn,
+      type: morphType(config),
+    }),
+  };
+}
+
+export function createQuery(db, schema, options = {}) {
+  const { adapter } = options;
+
+  return new Proxy(
+    {},
+    {
+      get: (_, table) => ({
+        findMany: (config) =>
+          findQuery(adapter, db, schema, table, config).execute(),
+        findFirst: (config) =>
+          findQuery(adapter, db, schema, table, {
+            ...config,
+            limit: 1,
+          }).executeTakeFirst(),
+        load: (rows, relations, options) =>
+          loadRelations(db, schema, table, rows, relations, options),
+      }),
+    }
+  );
+}
+
+export function createLoaders(db, schema, options = {}) {
+  const loaders = new Map();
+
+  return new Proxy(
+    {},
+    {
+      get: (_, table) =>
+        isInspected(table)
+          ? undefined
+          : new Proxy(
+              {},
+              {
+                get: (_, name) => {
+                  if (isInspected(name)) {
+                    return undefined;
+                  }
+
+                  const id = `${table}.${name}`;
+
+                  if (!loaders.has(id)) {
+                    loaders.set(
+                      id,
+                      relationLoader(
+                        db,
+                        schema,
+                        relationDefinition(schema, table, name),
+                        options
+                      )
+                    );
+                  }
+
+                  return loaders.get(id);
+                },
+              }
+            ),
+    }
+  );
+}
+
+// Symbol keys and `then` are looked up by runtimes and frameworks inspecting
+// an object, such as when it's returned from an async function, so they can't
+// name tables or relations.
+function isInspected(key) {
+  return typeof key === "symbol" || key === "then";
+}
+
+// Loads a relation for the parents requested within a tick with one batched
+// load, caching the results by parent key like DataLoader.
+function relationLoader(db, schema, definition, options) {
+  const { relationName, config } = definition;
+  const columns = columnList(config.column);
+  const cache = new Map();
+  let batch;
+
+  const dispatch = async (requests) => {
+    try {
+      const results = await loadRelation(
+        db,
+        schema,
+        definition,
+        requests.map(({ row }) => row),
+        {},
+        options
+      );
+
+      requests.forEach(({ resolve }, i) => resolve(results[i]));
+    } catch (error) {
+      // Failed parents aren't cached, so they can be loaded again.
+      for (const { id, reject } of requests) {
+        cache.delete(id);
+        reject(error);
+      }
+    }
+  };
+  const cacheKey = (row) => keyString(rowKey(row, columns, relationName));
+  const loader = {
+    load: (row) => {
+      let id;
+
+      // Like the loading errors, invalid parents reject the returned promise.
+      try {
+        id = cacheKey(row);
+      } catch (error) {
+        return Promise.reject(error);
+      }
+
+      if (!cache.has(id)) {
+        if (!batch) {
+          batch = [];
+          // Resolvers run in promise callbacks, so a timer collects every
+          // parent requested until the pending callbacks have run.
+          setTimeout(() => {
+            const requests = batch;
+            batch = undefined;
+            dispatch(requests);
+          });
+        }
+
+        cache.set(
+          id,
+          new Promise((resolve, reject) =>
+            batch.push({ id, row, resolve, reject })
+          )
+        );
+      }
+
+      return cache.get(id);
+    },
+    loadMany: (rows) => Promise.all(rows.map((row) => loader.load(row))),
+    clear: (row) => {
+      cache.delete(cacheKey(row));
+      return loader;
+    },
+    clearAll: () => {
+      cache.clear();
+      return loader;
+    },
+  };
+
+  return loader;
+}
+
+function findQuery(adapter, db, schema, table, config = {}) {
+  return orderAndLimit(
+    adapter,
+    selectFound(db.selectFrom(table), schema, table, config),
+    config
+  );
+}
+
+// Applies the columns, with and where options of a relational query to a root
+// query or a relation subquery.
+function selectFound(qb, schema, table, config) {
+  const columns = Object.entries(config.columns ?? {})
+    .filter(([, selected]) => selected)
+    .map(([column]) => column);
+
+  qb = config.columns ? qb.select(columns) : qb.selectAll();
+
+  for (const [name, nestedConfig] of Object.entries(config.with ?? {})) {
+    const nested = nestedConfig === true ? {} : nestedConfig;
+    const definition = relationDefinition(schema, table, name, nested.unscoped);
+    const json = definition.json(
+      (qb) => selectFound(qb, schema, definition.config.target, nested),
+      nested
+    );
+
+    qb = qb.select(json.as(name));
+  }
+
+  return config.where ? qb.where(config.where) : qb;
+}
+
+function relationDefinition(schema, table, name, unscoped) {
+  const include = schema[table]?.[name];
+  const definition = relationDefinitions.get(
+    unscoped ? include?.unscoped : include
+  );
+
+  if (!definition) {
+    throw new Error(`Unknown relation "${name}" on table "${table}"`);
+  }
+
+  return definition;
+}
+
+const DEFAULT_CHUNK_SIZE = 500;
+const PARENT_KEY_PREFIX = "__parent_key_";
+const TARGET_KEY_PREFIX = "__target_key_";
+const PIVOT_PREFIX = "__pivot_";
+const PIVOT_KEY = "pivot";
+
+// Loads relations onto rows that were already fetched, with one query per
+// relation and level instead of a json subquery per row. Through relations
+// query the junction table first.
+async function loadRelations(db, schema, table, rows, relations, options) {
+  const loaded = rows.map((row) => ({ ...row }));
+
+  for (const [name, nestedConfig] of Object.entries(relations ?? {})) {
+    const config = nestedConfig === true ? {} : nestedConfig;
+    const definition = relationDefinition(schema, table, name, config.unscoped);
+    const related = await loadRelation(
+      db,
+      schema,
+      definition,
+      loaded,
+      config,
+      options
+    );
+
+    loaded.forEach((row, i) => {
+      row[name] = related[i];
+    });
+  }
+
+  return loaded;
+}
+
+async function loadRelation(db, schema, definition, rows, config, options) {
+  const { relationName, config: relation } = definition;
+
+  if (relation.chain) {
+    throw new Error(
+      `Loading "${relationName}" in batches is not supported for relation chains`
+    );
+  }
+
+  const parentKeys = rows.map((row) =>
+    rowKey(row, columnList(relation.column), relationName)
+  );
+  const keys = uniqueKeys(parentKeys.filter((key) => key !== null));
+  const children = relation.through
+    ? await loadThroughRows(db, schema, definition, keys, config, options)
+    : groupRows(
+        await loadTargetRows(
+          db,
+          schema,
+          definition,
+          columnList(relation.reference),
+          keys,
+          config,
+          options
+        )
+      );
+
+  return parentKeys.map((key) => {
+    const rows = (key && children.get(keyString(key))) ?? [];
+
+    if (!definition.many) {
+      return definition.check
+        ? checkedRow([key ?? [], rows], definition.check)
+        : (rows[0] ?? null);
+    }
+
+    const offset = config.offset ?? 0;
+
+    return rows.slice(
+      offset,
+      config.limit === undefined ? undefined : offset + config.limit
+    );
+  });
+}
+
+async function loadThroughRows(db, schema, definition, keys, config, options) {
+  const relation = definition.config;
+  const throughColumns = columnList(relation.throughColumn);
+  const customizeThrough = relation.customizeThrough ?? ((v) => v);
+  const pivot = relation.pivot ?? [];
+  const links = await chunked(keys, options, (chunk) =>
+    customizeThrough(
+      scoped(
+        db.selectFrom(relation.through),
+        definition.scopes,
+        relation.through
+      )
+    )
+      .select((eb) => [
+        ...keySelections(eb, throughColumns, PARENT_KEY_PREFIX),
+        ...keySelections(
+          eb,
+          columnList(relation.throughReference),
+          TARGET_KEY_PREFIX
+        ),
+        ...keySelections(
+          eb,
+          pivot.map((column) => `${relation.through}.${column}`),
+          PIVOT_PREFIX
+        ),
+      ])
+      .where((eb) => keysIn(eb, throughColumns, chunk))
+      .execute()
+  );
+  const targets = await loadTargetRows(
+    db,
+    schema,
+    definition,
+    columnList(relation.reference),
+    uniqueKeys(links.map((link) => prefixedKey(link, TARGET_KEY_PREFIX))),
+    config,
+    options
+  );
+  const positions = new Map(targets.map(([, row], i) => [row, i]));
+  const targetsByKey = groupRows(targets);
+  const children = new Map();
+
+  for (const link of links) {
+    const parentKey = keyString(prefixedKey(link, PARENT_KEY_PREFIX));
+    const rows = (
+      targetsByKey.get(keyString(prefixedKey(link, TARGET_KEY_PREFIX))) ?? []
+    ).map((row) => {
+      if (!relation.pivot) {
+        return row;
+      }
+
+      // Every link gets its own copy, holding the pivot columns of its row.
+      const values = prefixedKey(link, PIVOT_PREFIX);
+      const copy = {
+        ...row,
+        [PIVOT_KEY]: Object.fromEntries(
+          pivot.map((column, i) => [column, values[i]])
+        ),
+      };
+      positions.set(copy, positions.get(row));
+
+      return copy;
+    });
+
+    children.set(parentKey, [...(children.get(parentKey) ?? []), ...rows]);
+  }
+
+  // Keep the order of the target query rather than the junction table's.
+  for (const rows of children.values()) {
+    rows.sort((a, b) => positions.get(a) - positions.get(b));
+  }
+
+  return children;
+}
+
+// Returns `[key, row]` entries in query order, with the rows' own relations
+// loaded and the helper columns removed.
+async function loadTargetRows(
+  db,
+  schema,
+  definition,
+  keyColumns,
+  keys,
+  config,
+  options
+) {
+  const { config: relation, customizeQuery, scopes } = definition;
+  const target = relation.target;
+  const nestedColumns = Object.keys(config.with ?? {}).flatMap((name) =>
+    columnList(relationDefinition(schema, target, name).config.column).map(
+      unqualifiedColumn
+    )
+  );
+  const hiddenColumns = config.columns
+    ? [...new Set(nestedColumns)].filter((column) => !config.columns[column])
+    : [];
+  const rows = await chunked(keys, options, (chunk) => {
+    const scopedQuery = scoped(db.selectFrom(target), scopes, target);
+    const baseQuery = customizeQuery
+      ? customizeQuery(scopedQuery, batchParentReferences)
+      : scopedQuery;
+    const query = selectFound(baseQuery, schema, target, {
+      columns: config.columns,
+      where: config.where,
+    })
+      .select((eb) => [
+        ...hiddenColumns,
+        ...keySelections(eb, keyColumns, TARGET_KEY_PREFIX),
+      ])
+      .where((eb) => keysIn(eb, keyColumns, chunk));
+
+    return orderAndLimit(definition.adapter, query, {
+      orderBy: config.orderBy,
+    }).execute();
+  });
+  const loaded = await loadRelations(
+    db,
+    schema,
+    target,
+    rows,
+    config.with,
+    options
+  );
+
+  return loaded.map((row) => {
+    const key = prefixedKey(row, TARGET_KEY_PREFIX);
+
+    for (const column of Object.keys(row)) {
+      if (
+        hiddenColumns.includes(column) ||
+        column.startsWith(TARGET_KEY_PREFIX)
+      ) {
+        delete row[column];
+      }
+    }
+
+    return [key, row];
+  });
+}
+
+// The parent row isn't part of a batched query, so customizeQuery can't
+// reference it.
+const batchParentReferences = {
+  ref: () => {
+    throw new Error(
+      "Parent references are not supported when loading relations in batches"
+    );
+  },
+};
+
+async function chunked(keys, options, query) {
+  const chunkSize = options?.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const rows = [];
+
+  for (let i = 0; i < keys.length; i += chunkSize) {
+    rows.push(...(await query(keys.slice(i, i + chunkSize))));
+  }
+
+  return rows;
+}
+
+function keySelections(eb, columns, prefix) {
+  return columns.map((column, i) => eb.ref(column).as(`${prefix}${i}`));
+}
+
+// Row values aren't supported in in-lists everywhere, so composite keys are
+// matched with one comparison per key.
+function keysIn(eb, columns, keys) {
+  if (columns.length === 1) {
+    return eb(
+      columns[0],
+      "in",
+      keys.map(([value]) => value)
+    );
+  }
+
+  return eb.or(keys.map((values) => keyEquals(eb, columns, values)));
+}
+
+function rowKey(row, columns, relationName) {
+  const key = columns.map((column) => {
+    const name = unqualifiedColumn(column);
+
+    if (!Object.hasOwn(row, name)) {
+      throw new Error(
+        `Loading "${relationName}" requires the "${name}" column on the parent rows`
+      );
+    }
+
+    return row[name];
+  });
+
+  return key.some((value) => value === null || value === undefined)
+    ? null
+    : key;
+}
+
+function unqualifiedColumn(column) {
+  return column.split(".").at(-1);
+}
+
+function prefixedKey(row, prefix) {
+  const key = [];
+
+  for (let i = 0; Object.hasOwn(row, `${prefix}${i}`); i++) {
+    key.push(row[`${prefix}${i}`]);
+  }
+
+  return key;
+}
+
+function uniqueKeys(keys) {
+  return [...new Map(keys.map((key) => [keyString(key), key])).values()];
+}
+
+function groupRows(entries) {
+  const groups = new Map();
+
+  for (const [key, row] of entries) {
+    const group = keyString(key);
+    groups.set(group, [...(groups.get(group) ?? []), row]);
+  }
+
+  return groups;
+}
+
+function keyString(key) {
+  return JSON.stringify(key, (_, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+}
+
+function hasOne(relationName, config, customizeQuery, options) {
+  const query = relationQueryFactory(config, customizeQuery, options.scopes);
+  const subquery = (selectFunc) => query(columnRefs(config.column), selectFunc);
+
+  return Object.assign(
+    relation(relationName, config, query, subquery, {
+      customizeQuery,
+      cardinality: "one",
+      strict: options.strict,
+      scopes: options.scopes,
+      adapter: options.adapter,
+    }),
+    relationWrites(relationName, config)
+  );
+}
+
+function hasOneNotNull(relationName, config, customizeQuery, options) {
+  const query = relationQueryFactory(config, customizeQuery, options.scopes);
+  const subquery = (selectFunc) => query(columnRefs(config.column), selectFunc);
+
+  return Object.assign(
+    relation(relationName, config, query, subquery, {
+      customizeQuery,
+      cardinality: "oneNotNull",
+      strict: options.strict,
+      scopes: options.scopes,
+      adapter: options.adapter,
+    }),
+    relationWrites(relationName, config)
+  );
+}
+
+function belongsTo(relationName, config, customizeQuery, options) {
+  const { associate, dissociate } = belongsToWrites(relationName, config);
+
+  return Object.assign(
+    belongsToRelation(relationName, config, customizeQuery, {
+      cardinality: "one",
+      strict: options.strict,
+      scopes: options.scopes,
+      adapter: options.adapter,
+    }),
+    { associate, dissociate }
+  );
+}
+
+// A key that can't be null can't be dissociated.
+function belongsToNotNull(relationName, config, customizeQuery, options) {
+  const { associate } = belongsToWrites(relationName, config);
+
+  return Object.assign(
+    belongsToRelation(relationName, config, customizeQuery, {
+      cardinality: "oneNotNull",
+      strict: options.strict,
+      scopes: options.scopes,
+      adapter: options.adapter,
+    }),
+    { associate }
+  );
+}
+
+function belongsToRelation(
+  relationName,
+  config,
+  customizeQuery,
+  { cardinality, strict, scopes, adapter }
+) {
+  const query = relationQueryFactory(config, customizeQuery, scopes);
+  // Strict mode fetches a second row to detect duplicates.
+  const subquery = (selectFunc) =>
+    query(columnRefs(config.column), (qb, parent) =>
+      strict
+        ? selectFunc(qb, parent)
+        : limitRows(adapter, selectFunc(qb, parent), { limit: 1 })
+    );
+
+  return relation(relationName, config, query, subquery, {
+    customizeQuery,
+    cardinality,
+    strict,
+    scopes,
+    adapter,
+  });
+}
+
+function hasMany(relationName, config, configureQuery, options) {
+  const { adapter } = options;
+  const query = relationQueryFactory(config, configureQuery, options.scopes);
+  const subquery = (selectFunc, options) =>
+    query(columnRefs(config.column), (qb, parent) =>
+      paginate(adapter, selectFunc(qb, parent), options)
+    );
+
+  return Object.assign(
+    relation(relationName, config, query, subquery, {
+      customizeQuery: configureQuery,
+      cardinality: "many",
+      scopes: options.scopes,
+      adapter: options.adapter,
+    }),
+    relationWrites(relationName, config)
+  );
+}
+
+function hasManyThrough(relationName, config, configureQuery, options) {
+  if (Array.isArray(config)) {
+    return relationChain(relationName, config, configureQuery, {
+      ...options,
+      cardinality: "many",
+    });
+  }
+
+  const { adapter } = options;
+  const query = throughRelationQueryFactory(
+    config,
+    configureQuery,
+    options.scopes
+  );
+  const subquery = (selectFunc, options) =>
+    query(columnRefs(config.column), (qb, parent) =>
+      paginate(
+        adapter,
+        withPivot(adapter, config, selectFunc(qb, parent)),
+        options
+      )
+    );
+
+  return Object.assign(
+    relation(relationName, config, query, subquery, {
+      customizeQuery: configureQuery,
+      cardinality: "many",
+      scopes: options.scopes,
+      adapter: options.adapter,
+    }),
+    throughRelationWrites(relationName, config)
+  );
+}
+
+function hasOneThrough(relationName, hops, customizeQuery, options) {
+  return relationChain(relationName, hops, customizeQuery, {
+    ...options,
+    cardinality: "one",
+  });
+}
+
+// Composes relations into one from the source of the first to the target of
+// the last, each relation starting at the target of the one before it.
+function relationChain(relationName, hops, customizeQuery, options) {
+  const { adapter, strict, cardinality } = options;
+  const definitions = hops.map((hop) => relationDefinitions.get(hop));
+
+  if (definitions.length === 0 || definitions.includes(undefined)) {
+    throw new Error(
+      `Relation chain "${relationName}" can only chain relations returned by the relation functions`
+    );
+  }
+
+  for (let i = 1; i < definitions.length; i++) {
+    const source = keyTable(definitions[i].config.column);
+    const target = definitions[i - 1].config.target;
+
+    if (source !== target) {
+      throw new Error(
+        `Relation chain "${relationName}" continues from "${source}" after reaching "${target}"`
+      );
+    }
+  }
+
+  const config = {
+    target: definitions.at(-1).config.target,
+    column: definitions[0].config.column,
+    chain: definitions.map((definition) => definition.config),
+  };
+  const query = chainQueryFactory(definitions, customizeQuery, options.scopes);
+  const many = cardinality === "many";
+  // Strict mode fetches a second row to detect duplicates.
+  const subquery = (selectFunc, options) =>
+    query(columnRefs(config.column), (qb, parent) => {
+      const selected = selectFunc(qb, parent);
+
+      if (many) {
+        return paginate(adapter, selected, options);
+      }
+
+      return strict ? selected : limitRows(adapter, selected, { limit: 1 });
+    });
+
+  return relation(relationName, config, query, subquery, {
+    customizeQuery,
+    cardinality,
+    strict,
+    scopes: options.scopes,
+    adapter,
+  });
+}
+
+// Selects the pivot columns of the through table as a nested `pivot` object,
+// which the deserializer plugin treats like a relation of the through table.
+function withPivot(adapter, config, qb) {
+  if (!config.pivot) {
+    return qb;
+  }
+
+  const json = adapter.jsonObject(
+    Object.fromEntries(
+      config.pivot.map((column) => [
+        column,
+        sql.ref(throughColumnRef(config, column)),
+      ])
+    )
+  );
+
+  relationResults.set(json.toOperationNode(), {
+    kind: "object",
+    target: config.through,
+    shape: {
+      columns: Object.fromEntries(
+        config.pivot.map((column) => [column, column])
+      ),
+      relations: {},
+      selectAll: false,
+    },
+  });
+
+  return qb.select(json.as(PIVOT_KEY));
+}
+
+function morphOne(relationName, config, customizeQuery, options) {
+  return Object.assign(
+    hasOne(relationName, config, morphQuery(config, customizeQuery), options),
+    relationWrites(relationName, config, morphValues(config))
+  );
+}
+
+function morphMany(relationName, config, customizeQuery, options) {
+  return Object.assign(
+    hasMany(relationName, config, morphQuery(config, customizeQuery), options),
+    relationWrites(relationName, config, morphValues(config))
+  );
+}
+
+// Restricts a polymorphic relation to the rows whose type column names the
+// parent table.
+function morphQuery(config, customizeQuery) {
+  return (qb, parent) =>
+    (customizeQuery ? customizeQuery(qb, parent) : qb).where(
+      config.typeColumn,
+      "=",
+      morphType(config)
+    );
+}
+
+function morphType(config) {
+  return config.type ?? keyTable(config.column);
+}
+
+// Rows created through a polymorphic relation store the parent's type.
+function morphValues(config) {
+  return { [unqualifiedColumn(config.typeColumn)]: morphType(config) };
+}
+
+// The inverse of morphOne and morphMany: the type column picks the target
+// table, so every target gets its own subquery and the row of the matching one
+// is returned along with its type.
+function morphTo(relationName, config, _, options) {
+  const targets = Object.entries(config.targets).map(([type, reference]) => {
+    const targetConfig = {
+      target: keyTable(reference),
+      column: config.column,
+      reference,
+    };
+
+    return {
+      type,
+      targetConfig,
+      query: relationQueryFactory(targetConfig, undefined, options.scopes),
+    };
+  });
+
+  return (selectFuncs) => {
+    const branches = targets.map(({ type, targetConfig, query }) => ({
+      type,
+      targetConfig,
+      expr: query(columnRefs(config.column), (qb, parent) =>
+        limitRows(
+          options.adapter,
+          selectFuncs[type](qb, parent).select(sql.lit(type).as("type")),
+          { limit: 1 }
+        )
+      ),
+    }));
+    const json = sql`(case ${sql.ref(config.typeColumn)} ${sql.join(
+      branches.map(
+        ({ type, expr }) =>
+          sql`when ${sql.lit(type)} then ${options.adapter.jsonObjectFrom(expr)}`
+      ),
+      sql` `
+    )} end)`;
+
+    relationResults.set(json.toOperationNode(), {
+      kind: "morph",
+      targets: Object.fromEntries(
+        branches.map(({ type, targetConfig, expr }) => [
+          type,
+          {
+            target: targetConfig.target,
+            shape: selectionShape(expr.toOperationNode()),
+          },
+        ])
+      ),
+    });
+
+    return () => json.as(relationName);
+  };
+}
+
+// Inserts and links rows of a hasOne or hasMany target with the foreign key
+// filled in from the parent. Parents are given as rows or as key values, while
+// existing target rows are picked with a filter, as their keys aren't known.
+function relationWrites(relationName, config, values = {}) {
+  const columns = columnList(config.column);
+  const references = columnList(config.reference);
+
+  return {
+    create: async (db, parent, rows) => {
+      const key = writeKey(relationName, parent, columns);
+      const newRows = Array.isArray(rows) ? rows : [rows];
+
+      if (newRows.length > 0) {
+        await db
+          .insertInto(config.target)
+          .values(
+            newRows.map((row) => ({
+              ...row,
+              ...values,
+              ...keyValues(references, key),
+            }))
+          )
+          .execute();
+      }
+    },
+    // Points the target rows matching `where` at the parent.
+    connect: async (db, parent, where) => {
+      const key = writeKey(relationName, parent, columns);
+
+      await db
+        .updateTable(config.target)
+        .set({ ...values, ...keyValues(references, key) })
+        .where(where)
+        .execute();
+    },
+    // Sets the foreign key of the parent's target rows to null, of the ones
+    // matching `where` when it's given.
+    disconnect: async (db, parent, where) => {
+      const key = writeKey(relationName, parent, columns);
+
+      await db
+        .updateTable(config.target)
+        .set(keyValues(references, nullKey(references)))
+        .where((eb) =>
+          eb.and([
+            keyEquals(eb, references, key),
+            ...Object.entries(values).map(([column, value]) =>
+              eb(column, "=", value)
+            ),
+            ...(where ? [where(eb)] : []),
+          ])
+        )
+        .execute();
+    },
+  };
+}
+
+// Sets the foreign key of the rows of the relation's table matching `where`,
+// to a target or to null.
+function belongsToWrites(relationName, config) {
+  const table = keyTable(config.column);
+  const columns = columnList(config.column);
+  const references = columnList(config.reference);
+
+  return {
+    associate: async (db, where, target) => {
+      await db
+        .updateTable(table)
+        .set(keyValues(columns, writeKey(relationName, target, references)))
+        .where(where)
+        .execute();
+    },
+    dissociate: async (db, where) => {
+      await db
+        .updateTable(table)
+        .set(keyValues(columns, nullKey(columns)))
+        .where(where)
+        .execute();
+    },
+  };
+}
+
+function nullKey(columns) {
+  return columns.map(() => null);
+}
+
+// Links parents to target rows by inserting and deleting junction rows. The
+// statements run on the given instance, so pass a transaction to apply them
+// together.
+function throughRelationWrites(relationName, config) {
+  const columns = columnList(config.column);
+  const references = columnList(config.reference);
+  const throughColumns = columnList(config.throughColumn);
+  const throughReferences = columnList(config.throughReference);
+  const targetKeys = (targets) =>
+    uniqueKeys(
+      targets.map((target) => writeKey(relationName, target, references))
+    );
+  const attachKeys = async (db, parentKey, keys) => {
+    if (keys.length > 0) {
+      await db
+        .insertInto(config.through)
+        .values(
+          keys.map((key) => ({
+            ...keyValues(throughColumns, parentKey),
+            ...keyValues(throughReferences, key),
+          }))
+        )
+        .execute();
+    }
+  };
+  const detachKeys = async (db, parentKey, keys) => {
+    if (keys?.length === 0) {
+      return;
+    }
+
+    await db
+      .deleteFrom(config.through)
+      .where((eb) =>
+        eb.and([
+          keyEquals(eb, throughColumns, parentKey),
+          ...(keys ? [keysIn(eb, throughReferences, keys)] : []),
+        ])
+      )
+      .execute();
+  };
+
+  return {
+    attach: (db, parent, targets) =>
+      attachKeys(
+        db,
+        writeKey(relationName, parent, columns),
+        targetKeys(targets)
+      ),
+    // Detaches every target when none are given.
+    detach: (db, parent, targets) =>
+      detachKeys(
+        db,
+        writeKey(relationName, parent, columns),
+        targets && targetKeys(targets)
+      ),
+    // Attaches the missing targets and detaches the others, returning the keys
+    // of both.
+    sync: async (db, parent, targets) => {
+      const parentKey = writeKey(relationName, parent, columns);
+      const keys = targetKeys(targets);
+      const links = await db
+        .selectFrom(config.through)
+        .select((eb) => keySelections(eb, throughReferences, TARGET_KEY_PREFIX))
+        .where((eb) => keyEquals(eb, throughColumns, parentKey))
+        .execute();
+      // Duplicate junction rows of a target are detached once.
+      const current = uniqueKeys(
+        links.map((link) => prefixedKey(link, TARGET_KEY_PREFIX))
+      );
+      const currentStrings = new Set(current.map(keyString));
+      const keyStrings = new Set(keys.map(keyString));
+      const attached = keys.filter(
+        (key) => !currentStrings.has(keyString(key))
+      );
+      const detached = current.filter((key) => !keyStrings.has(keyString(key)));
+
+      await detachKeys(db, parentKey, detached);
+      await attachKeys(db, parentKey, attached);
+
+      return {
+        attached: attached.map(keyResult),
+        detached: detached.map(keyResult),
+      };
+    },
+  };
+}
+
+// Reads a key from a row, or takes it as a value, or a tuple of values for
+// composite keys.
+function writeKey(relationName, value, columns) {
+  if (isKeyRow(value)) {
+    return columns.map((column) => {
+      const name = unqualifiedColumn(column);
+
+      if (!Object.hasOwn(value, name)) {
+        throw new Error(
+          `Writing "${relationName}" requires the "${name}" column on the rows`
+        );
+      }
+
+      return value[name];
+    });
+  }
+
+  if (columns.length === 1) {
+    return [value];
+  }
+
+  if (!Array.isArray(value) || value.length !== columns.length) {
+    throw new Error(
+      `Writing "${relationName}" requires keys of ${columns.length} values`
+    );
+  }
+
+  return value;
+}
+
+function isKeyRow(value) {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !ArrayBuffer.isView(value)
+  );
+}
+
+function keyValues(columns, key) {
+  return Object.fromEntries(
+    columns.map((column, i) => [unqualifiedColumn(column), key[i]])
+  );
+}
+
+function keyResult(key) {
+  return key.length === 1 ? key[0] : key;
+}
+
+// Relation definitions by include function, used to resolve nested relations
+// by name in the relational query API and the batched loader.
+const relationDefinitions = new WeakMap();
+
+function relation(
+  relationName,
+  config,
+  query,
+  subquery,
+  { customizeQuery, cardinality, strict, scopes, adapter }
+) {
+  const many = cardinality === "many";
+  const check =
+    strict && !many
+      ? {
+          relationName,
+          columns: columnList(config.column),
+          notNull: cardinality === "oneNotNull",
+        }
+      : undefined;
+  const json = (selectFunc, options) => {
+    if (many) {
+      return relationArrayFrom(
+        adapter,
+        config,
+        subquery(selectFunc, options),
+        options
+      );
+    }
+
+    return check
+      ? relationCheckedFrom(adapter, config, subquery(selectFunc), check)
+      : relationObjectFrom(adapter, config, subquery(selectFunc));
+  };
+  const helpers = {
+    ...relationAggregates(adapter, relationName, config, query),
+    ...relationFilters(config, query),
+  };
+  const include = (selectFunc, options) => {
+    return Object.assign(
+      () => json(selectFunc, options).as(relationName),
+      helpers
+    );
+  };
+  // Pages of related rows, read by RelationsDeserializerPlugin.
+  const paginate = (selectFunc, options) => {
+    const page = relationPageFrom(
+      adapter,
+      relationName,
+      config,
+      subquery,
+      selectFunc,
+      options
+    );
+
+    return Object.assign(() => page.as(relationName), helpers);
+  };
+
+  relationDefinitions.set(include, {
+    relationName,
+    config,
+    customizeQuery,
+    many,
+    check,
+    json,
+    scopes,
+    adapter,
+  });
+
+  // Lateral joins are only available on dialects that support them.
+  return Object.assign(
+    include,
+    helpers,
+    many ? { paginate } : {},
+    adapter.lateralJsonFrom
+      ? relationLateralJoin(
+          adapter,
+          relationName,
+          config,
+          subquery,
+          many,
+          check
+        )
+      : {}
+  );
+}
+
+// Aggregates the related rows. The order of customizeQuery means nothing to a
+// single aggregate row and is dropped, while a limit or offset bounds the rows,
+// which are then aggregated from a derived table.
+function relationAggregates(adapter, relationName, config, query) {
+  const aggregate = (alias, name, select, column) => {
+    return () => {
+      let paged = false;
+      const qb = query(columnRefs(config.column), (qb) => {
+        paged = isPaged(qb);
+
+        return paged
+          ? qb.select((eb) => (column ? eb.ref(column) : eb.lit(1)).as(name))
+          : qb.clearOrderBy().select((eb) => select(eb, column).as(name));
+      });
+
+      return (
+        paged
+          ? expressionBuilder()
+              .selectFrom(qb.as("rows"))
+              .select((eb) => select(eb, `rows.${name}`).as(name))
+          : qb
+      ).as(alias);
+    };
+  };
+
+  return {
+    count: aggregate(`${relationName}Count`, "count", (eb) =>
+      adapter.countAll(eb)
+    ),
+    exists: (eb) => {
+      const exists = existsQuery(config, query);
+
+      // Dialects without booleans can't select exists directly.
+      return (
+        adapter.exists ? adapter.exists(eb, exists) : eb.exists(exists)
+      ).as(`${relationName}Exists`);
+    },
+    sum: (column, alias = `${relationName}Sum`) =>
+      aggregate(alias, "sum", (eb, column) => eb.fn.sum(column), column),
+    min: (column, alias = `${relationName}Min`) =>
+      aggregate(alias, "min", (eb, column) => eb.fn.min(column), column),
+    max: (column, alias = `${relationName}Max`) =>
+      aggregate(alias, "max", (eb, column) => eb.fn.max(column), column),
+    avg: (column, alias = `${relationName}Avg`) =>
+      aggregate(alias, "avg", (eb, column) => eb.fn.avg(column), column),
+  };
+}
+
+function isPaged(qb) {
+  const { limit, offset, top, fetch } = qb.toOperationNode();
+
+  return Boolean(limit || offset || top || fetch);
+}
+
+function relationFilters(config, query) {
+  return {
+    whereHas: (eb, customizeQuery) =>
+      eb.exists(existsQuery(config, query, customizeQuery)),
+    whereDoesntHave: (eb, customizeQuery) =>
+      eb.not(eb.exists(existsQuery(config, query, customizeQuery))),
+  };
+}
+
+function existsQuery(config, query, customizeQuery) {
+  customizeQuery = customizeQuery ?? ((v) => v);
+
+  return query(columnRefs(config.column), (qb, parent) =>
+    customizeQuery(qb, parent).select((eb) => eb.lit(1).as("exists"))
+  );
+}
+
+export const POSITION_COLUMN = "__position";
+
+// Applies call time ordering and paging to a hasMany or hasManyThrough
+// subquery. Ordered subqueries also select each row's position, which is used
+// to keep the order when the rows are aggregated into a json array.
+function paginate(adapter, qb, options = {}) {
+  const orderBy = orderByList(options.orderBy);
+
+  if (orderBy.length > 0) {
+    qb = qb.select((eb) =>
+      eb.fn
+        .agg("row_number")
+        .over((ob) =>
+          orderBy.reduce(
+            (ob, [column, direction]) => ob.orderBy(column, direction),
+            ob
+          )
+        )
+        .as(POSITION_COLUMN)
+    );
+  }
+
+  return orderAndLimit(adapter, qb, options);
+}
+
+function orderAndLimit(adapter, qb, options) {
+  qb = orderByList(options.orderBy).reduce(
+    (qb, [column, direction]) => qb.orderBy(column, direction),
+    qb
+  );
+
+  return limitRows(adapter, qb, options);
+}
+
+// Dialects without a limit clause page queries their own way.
+function limitRows(adapter, qb, { limit, offset }) {
+  if (adapter?.limit) {
+    return adapter.limit(qb, { limit, offset });
+  }
+
+  if (limit !== undefined) {
+    qb = qb.limit(limit);
+  }
+
+  if (offset !== undefined) {
+    qb = qb.offset(offset);
+  }
+
+  return qb;
+}
+
+function orderByList(orderBy = []) {
+  return orderBy.map((item) =>
+    Array.isArray(item) ? [item[0], item[1] ?? "asc"] : [item, "asc"]
+  );
+}
+
+function relationObjectFrom(adapter, config, expr) {
+  return registerRelationResult(
+    "object",
+    config,
+    expr,
+    adapter.jsonObjectFrom(expr)
+  );
+}
+
+// Strict mode returns single relations as `[parentKey, rows]` with up to two
+// rows, which RelationsDeserializerPlugin checks and unwraps.
+function relationCheckedFrom(adapter, config, expr, check) {
+  const limited = limitRows(adapter, expr, { limit: 2 });
+  const json = adapter.jsonArray([
+    adapter.jsonArray(columnRefs(config.column)),
+    adapter.jsonArrayFrom(limited),
+  ]);
+
+  return registerRelationResult("checked", config, limited, json, check);
+}
+
+function relationArrayFrom(adapter, config, expr, options = {}) {
+  const json =
+    orderByList(options.orderBy).length > 0
+      ? adapter.orderedJsonArrayFrom(expr)
+      : adapter.jsonArrayFrom(expr);
+
+  return registerRelationResult("array", config, expr, json);
+}
+
+const CURSOR_PREFIX = "__cursor_";
+
+// Selects one row more than the page holds, to tell whether there are more,
+// along with the values of the ordering columns to build the next cursor from.
+// Rows after the cursor are the ones past its values in the page's order, in
+// which nulls come last on every dialect.
+function relationPageFrom(
+  adapter,
+  relationName,
+  config,
+  subquery,
+  selectFunc,
+  { orderBy, limit, cursor }
+) {
+  const order = orderByList(orderBy);
+
+  if (order.length === 0) {
+    throw new Error(`Paginating "${relationName}" requires an orderBy`);
+  }
+
+  if (!(limit > 0)) {
+    throw new Error(`Paginating "${relationName}" requires a limit above 0`);
+  }
+
+  const values =
+    cursor === undefined || cursor === null
+      ? undefined
+      : decodeCursor(relationName, cursor, order.length);
+  const expr = subquery(
+    (qb, parent) =>
+      selectFunc(
+        values ? qb.where((eb) => afterCursor(eb, order, values)) : qb,
+        parent
+      ).select((eb) =>
+        order.map(([column], i) => eb.ref(column).as(`${CURSOR_PREFIX}${i}`))
+      ),
+    {
+      orderBy: order.flatMap(([column, direction]) => [
+        [
+          expressionBuilder()
+            .case()
+            .when(column, "is", null)
+            .then(1)
+            .else(0)
+            .end(),
+        ],
+        [column, direction],
+      ]),
+      limit: limit + 1,
+    }
+  );
+  const json = adapter.orderedJsonArrayFrom(expr);
+
+  relationResults.set(json.toOperationNode(), {
+    kind: "page",
+    target: config.target,
+    shape: selectionShape(expr.toOperationNode()),
+    limit,
+    cursorColumns: order.length,
+  });
+
+  return json;
+}
+
+// Nothing comes after a null but other nulls, while nulls come after every
+// value.
+function afterCursor(eb, order, values) {
+  return eb.or(
+    order.flatMap(([column, direction], i) =>
+      values[i] === null
+        ? []
+        : [
+            eb.and([
+              ...order
+                .slice(0, i)
+                .map(([column], j) =>
+                  eb(column, values[j] === null ? "is" : "=", values[j])
+                ),
+              eb.or([
+                eb(column, direction === "desc" ? "<" : ">", values[i]),
+                eb(column, "is", null),
+              ]),
+            ]),
+          ]
+    )
+  );
+}
+
+// Cursors are the ordering values of the last row of a page, as base64 json.
+function encodeCursor(values) {
+  const bytes = new TextEncoder().encode(JSON.stringify(values));
+
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function decodeCursor(relationName, cursor, length) {
+  let values;
+
+  try {
+    const bytes = Uint8Array.from(atob(cursor), (char) => char.charCodeAt(0));
+    values = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    values = undefined;
+  }
+
+  if (!Array.isArray(values) || values.length !== length) {
+    throw new Error(`Invalid cursor for "${relationName}"`);
+  }
+
+  return values;
+}
+
+// Remembers the shape of every relation's json so RelationsDeserializerPlugin
+// can find the relations in a query and the columns of the rows inside them.
+const relationResults = new WeakMap();
+
+// Tells adapters which selections of a subquery are nested relations.
+export function isRelationResult(node) {
+  return relationResults.has(node);
+}
+
+function registerRelationResult(kind, config, expr, json, check) {
+  relationResults.set(json.toOperationNode(), {
+    kind,
+    target: config.target,
+    shape: selectionShape(expr.toOperationNode()),
+    check,
+  });
+
+  return json;
+}
+
+function selectionShape(node) {
+  const shape = { columns: {}, relations: {}, selectAll: false };
+
+  for (const { selection } of node.selections ?? []) {
+    const isAlias = selection.kind === "AliasNode";
+    const expression = isAlias ? selection.node : selection;
+    const column = columnName(expression);
+    const name = isAlias ? selection.alias.name : column;
+
+    if (relationResults.has(expression)) {
+      shape.relations[name] = relationResults.get(expression);
+    } else if (isSelectAll(expression)) {
+      shape.selectAll = true;
+    } else if (column) {
+      shape.columns[name] = column;
+    }
+  }
+
+  return shape;
+}
+
+function columnName(node) {
+  if (node.kind === "ReferenceNode" && node.column.kind === "ColumnNode") {
+    return node.column.column.name;
+  }
+
+  if (node.kind === "ColumnNode") {
+    return node.column.name;
+  }
+}
+
+function isSelectAll(node) {
+  return (
+    node.kind === "SelectAllNode" ||
+    (node.kind === "ReferenceNode" && node.column.kind === "SelectAllNode")
+  );
+}
+
+// Nested relations come back as json, so columns lose their types on the way
+// (dates turn into strings, booleans into numbers and so on). The plugin runs
+// the configured deserializers over the columns of every relation in a query's
+// result, and parses relations returned as json text.
+class RelationsDeserializerPlugin {
+  #deserializers;
+  #queries = new WeakMap();
+
+  constructor(deserializers) {
+    this.#deserializers = deserializers;
+  }
+
+  transformQuery(args) {
+    if (args.node.kind === "SelectQueryNode") {
+      const { relations } = selectionShape(args.node);
+
+      if (Object.keys(relations).length > 0) {
+        this.#queries.set(args.queryId, relations);
+      }
+    }
+
+    return args.node;
+  }
+
+  async transformResult(args) {
+    const relations = this.#queries.get(args.queryId);
+
+    if (!relations) {
+      return args.result;
+    }
+
+    return {
+      ...args.result,
+      rows: args.result.rows.map((row) =>
+        deserializeRelations(row, relations, this.#deserializers)
+      ),
+    };
+  }
+}
+
+function deserializeRelations(row, relations, deserializers) {
+  const output = { ...row };
+
+  for (const [name, relation] of Object.entries(relations)) {
+    if (Object.hasOwn(output, name)) {
+      output[name] = deserializeRelation(output[name], relation, deserializers);
+    }
+  }
+
+  return output;
+}
+
+function deserializeRelation(value, relation, deserializers) {
+  if (typeof value === "string") {
+    value = JSON.parse(value);
+  }
+
+  if (relation.kind === "checked") {
+    value = checkedRow(value, relation.check);
+  }
+
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (relation.kind === "page") {
+    return pageResult(value, relation, deserializers);
+  }
+
+  if (relation.kind === "morph") {
+    return deserializeRow(value, relation.targets[value.type], deserializers);
+  }
+
+  return relation.kind === "array"
+    ? value.map((row) => deserializeRow(row, relation, deserializers))
+    : deserializeRow(value, relation, deserializers);
+}
+
+// Pages come back with one row more than they hold when there are more rows,
+// and with the cursor values of every row, which are left out of the items.
+function pageResult(rows, relation, deserializers) {
+  const { limit, cursorColumns } = relation;
+  const cursorNames = Array.from(
+    { length: cursorColumns },
+    (_, i) => `${CURSOR_PREFIX}${i}`
+  );
+  const items = rows.slice(0, limit);
+  const hasMore = rows.length > limit;
+
+  return {
+    items: items.map((row) => {
+      const item = { ...row };
+
+      for (const name of cursorNames) {
+        delete item[name];
+      }
+
+      return deserializeRow(item, relation, deserializers);
+    }),
+    nextCursor: hasMore
+      ? encodeCursor(cursorNames.map((name) => items.at(-1)[name]))
+      : null,
+    hasMore,
+  };
+}
+
+function checkedRow([key, rows], { relationName, columns, notNull }) {
+  if (rows.length > 1 || (notNull && rows.length === 0)) {
+    const parentKey = columns
+      .map((column, i) => `${column} = ${JSON.stringify(key[i] ?? null)}`)
+      .join(", ");
+
+    throw new Error(
+      rows.length > 1
+        ? `Relation "${relationName}" matched more than one row for ${parentKey}`
+        : `Relation "${relationName}" matched no row for ${parentKey}`
+    );
+  }
+
+  return rows[0] ?? null;
+}
+
+function deserializeRow(row, { target, shape }, deserializers) {
+  const columnDeserializers = deserializers[target] ?? {};
+  const output = deserializeRelations(row, shape.relations, deserializers);
+
+  for (const [name, value] of Object.entries(output)) {
+    const column = shape.columns[name] ?? (shape.selectAll ? name : undefined);
+
+    if (
+      value !== null &&
+      column !== undefined &&
+      !Object.hasOwn(shape.relations, name) &&
+      Object.hasOwn(columnDeserializers, column)
+    ) {
+      output[name] = columnDeserializers[column](value);
+    }
+  }
+
+  return output;
+}
+
+// Includes the relation with a left join lateral instead of a subquery in the
+// select list, which lets the database plan per parent limits and aggregates
+// as a join.
+function relationLateralJoin(
+  adapter,
+  relationName,
+  config,
+  subquery,
+  many,
+  check
+) {
+  return {
+    joinLateral: (qb, selectFunc, options) => {
+      const alias = `${relationName}_lateral`;
+      const expr = subquery(selectFunc, options);
+      const lateral = check
+        ? sql`(select ${relationCheckedFrom(adapter, config, expr, check)} as ${sql.ref(relationName)})`
+        : adapter.lateralJsonFrom(relationName, expr, {
+            many,
+            ordered: orderByList(options?.orderBy).length > 0,
+          });
+      const selection = registerRelationResult(
+        check ? "checked" : many ? "array" : "object",
+        config,
+        expr,
+        sql.ref(`${alias}.${relationName}`),
+        check
+      );
+
+      return qb
+        .leftJoinLateral(lateral.as(alias), (join) => join.onTrue())
+        .select(selection.as(relationName));
+    },
+  };
+}
+
+function relationQueryFactory(config, customizeQuery, scopes) {
+  customizeQuery = customizeQuery ?? ((v) => v);
+  const references = columnList(config.reference);
+
+  return (expressions, selectFunc) => {
+    const { parent, parentReferences } = parentReferenceBuilder(config);
+    const baseQuery = customizeQuery(
+      scoped(
+        expressionBuilder().selectFrom(config.target),
+        scopes,
+        config.target
+      ),
+      parent
+    );
+
+    return selectFunc(
+      baseQuery.where((eb) => keyEquals(eb, references, expressions)),
+      parent
+    ).withPlugin(
+      new TableAliasPlugin(config.target, [...expressions, ...parentReferences])
+    );
+  };
+}
+
+function throughRelationQueryFactory(config, customizeQuery, scopes) {
+  if (config.pivot || config.customizeThrough) {
+    return joinedThroughQueryFactory(config, customizeQuery, scopes);
+  }
+
+  customizeQuery = customizeQuery ?? ((v) => v);
+  const references = columnList(config.reference);
+  const throughColumns = columnList(config.throughColumn);
+  const baseSubQuery = scoped(
+    expressionBuilder().selectFrom(config.through),
+    scopes,
+    config.through
+  ).select(columnList(config.throughReference));
+
+  return (expressions, selectFunc) => {
+    const { parent, parentReferences } = parentReferenceBuilder(config);
+    const baseQuery = customizeQuery(
+      scoped(
+        expressionBuilder().selectFrom(config.target),
+        scopes,
+        config.target
+      ),
+      parent
+    );
+
+    return selectFunc(
+      baseQuery.where((eb) =>
+        keysInQuery(
+          eb,
+          references,
+          baseSubQuery.where((eb) => keyEquals(eb, throughColumns, expressions))
+        )
+      ),
+      parent
+    ).withPlugin(
+      new TableAliasPlugin(config.target, [...expressions, ...parentReferences])
+    );
+  };
+}
+
+// Joins the through table instead of matching target keys against it, so its
+// columns can be selected and filtered on, and every junction row gives a row
+// of the target. The junction rows are selected in a subquery, where
+// customizeThrough and the through table's scope only see the through table
+// like they do when loading in batches, under the through table's name without
+// its schema.
+function joinedThroughQueryFactory(config, customizeQuery, scopes) {
+  customizeQuery = customizeQuery ?? ((v) => v);
+  const customizeThrough = config.customizeThrough ?? ((v) => v);
+  const references = columnList(config.reference);
+  const throughColumns = columnList(config.throughColumn).map((column) =>
+    throughColumnRef(config, column)
+  );
+  const throughReferences = columnList(config.throughReference).map((column) =>
+    throughColumnRef(config, column)
+  );
+
+  return (expressions, selectFunc) => {
+    const { parent, parentReferences } = parentReferenceBuilder(config);
+    const throughQuery = customizeThrough(
+      scoped(
+        expressionBuilder().selectFrom(config.through),
+        scopes,
+        config.through
+      )
+    )
+      .selectAll(config.through)
+      .as(tableName(config.through).name);
+    const baseQuery = customizeQuery(
+      scoped(
+        expressionBuilder().selectFrom(config.target),
+        scopes,
+        config.target
+      ),
+      parent
+    ).innerJoin(throughQuery, (join) =>
+      references.reduce(
+        (join, reference, i) =>
+          join.onRef(reference, "=", throughReferences[i]),
+        join
+      )
+    );
+
+    return selectFunc(
+      baseQuery.where((eb) => keyEquals(eb, throughColumns, expressions)),
+      parent
+    ).withPlugin(
+      new TableAliasPlugin(config.target, [...expressions, ...parentReferences])
+    );
+  };
+}
+
+// References a column of the joined junction rows.
+function throughColumnRef(config, column) {
+  return `${tableName(config.through).name}.${column.slice(column.lastIndexOf(".") + 1)}`;
+}
+
+// Matches the rows of each relation in a chain against the keys selected from
+// the rows of the relation before it, with the first correlated to the parent.
+// Every level selects its table under its own alias.
+function chainQueryFactory(definitions, customizeQuery, scopes) {
+  customizeQuery = customizeQuery ?? ((v) => v);
+
+  return (expressions, selectFunc) => {
+    const { parent, parentReferences } = parentReferenceBuilder(
+      definitions[0].config
+    );
+    const correlations = [...expressions, ...parentReferences];
+    let matchSource = (eb, columns) => keyEquals(eb, columns, expressions);
+
+    for (const [i, definition] of definitions.entries()) {
+      const { config } = definition;
+      const isLast = i === definitions.length - 1;
+      const match = matchSource;
+      let qb = scoped(
+        expressionBuilder().selectFrom(config.target),
+        scopes,
+        config.target
+      );
+
+      if (definition.customizeQuery) {
+        qb = definition.customizeQuery(
+          qb,
+          i === 0 ? parent : chainParentReferences
+        );
+      }
+
+      qb = qb.where((eb) =>
+        config.through
+          ? keysInQuery(
+              eb,
+              columnList(config.reference),
+              chainThroughQuery(config, scopes, match)
+            )
+          : match(eb, columnList(config.reference))
+      );
+
+      if (isLast) {
+        return selectFunc(customizeQuery(qb, parent), parent).withPlugin(
+          new TableAliasPlugin(config.target, correlations)
+        );
+      }
+
+      const keys = qb
+        .select(columnList(definitions[i + 1].config.column))
+        .withPlugin(new TableAliasPlugin(config.target, correlations));
+      matchSource = (eb, columns) => keysInQuery(eb, columns, keys);
+    }
+  };
+}
+
+// Selects the target keys of the junction rows of a through relation in a
+// chain.
+function chainThroughQuery(config, scopes, match) {
+  const customizeThrough = config.customizeThrough ?? ((v) => v);
+
+  return customizeThrough(
+    scoped(
+      expressionBuilder().selectFrom(config.through),
+      scopes,
+      config.through
+    )
+  )
+    .select(columnList(config.throughReference))
+    .where((eb) => match(eb, columnList(config.throughColumn)));
+}
+
+const chainParentReferences = {
+  ref: () => {
+    throw new Error(
+      "Parent references are only supported in the first relation of a chain"
+    );
+  },
+};
+
+function keysInQuery(eb, columns, subquery) {
+  return eb(
+    columns.length === 1 ? eb.ref(columns[0]) : eb.refTuple(...columns),
+    "in",
+    subquery
+  );
+}
+
+function keyTable(key) {
+  return columnTable(columnList(key)[0]);
+}
+
+// Columns are qualified with their table, which may itself be qualified with a
+// schema.
+function columnTable(column) {
+  return column.slice(0, Math.max(column.lastIndexOf("."), 0));
+}
+
+// Applies the default scope of a table to a query selecting from it. Scopes
+// run before customizeQuery and the target's alias is applied afterwards, so
+// they can reference the table by name.
+function scoped(qb, scopes, table) {
+  const scope = scopes?.[table];
+
+  return scope ? scope(qb) : qb;
+}
+
+// Gives customizeQuery and selectFunc access to the parent row. The created
+// references are tracked so the subquery's table alias isn't applied to them.
+function parentReferenceBuilder(config) {
+  const table = keyTable(config.column);
+  const parentReferences = [];
+  const parent = {
+    ref: (column) => {
+      const reference = sql.ref(
+        column.includes(".") ? column : `${table}.${column}`
+      );
+      parentReferences.push(reference);
+
+      return reference;
+    },
+  };
+
+  return { parent, parentReferences };
+}
+
+// `column`, `reference` and the through columns are either a single column or
+// a tuple of columns forming a composite key.
+function columnList(key) {
+  return Array.isArray(key) ? key : [key];
+}
+
+function columnRefs(key) {
+  return columnList(key).map((column) => sql.ref(column));
+}
+
+function keyEquals(eb, columns, expressions) {
+  return eb.and(columns.map((column, i) => eb(column, "=", expressions[i])));
+}
+
+// Every relation subquery selects its target under an alias so that the
+// parent column it's correlated with can't be captured by the subquery, which
+// would happen whenever a relation targets its own source table. Aliases are
+// numbered by the levels of subqueries nested in the relation's subquery, so
+// they differ from the aliases of relations nested in it while the sql of a
+// query stays the same every time it's built.
+class TableAliasPlugin {
+  #table;
+  #correlations;
+
+  constructor(table, correlations) {
+    this.#table = tableName(table);
+    this.#correlations = new Set(
+      correlations.map((correlation) => correlation.toOperationNode())
+    );
+  }
+
+  transformQuery(args) {
+    const alias = `${this.#table.name}_${subqueryDepth(args.node) + 1}`;
+    const node = new TableAliasTransformer(
+      this.#table,
+      alias,
+      this.#correlations
+    ).transformNode(args.node);
+
+    return {
+      ...node,
+      from: FromNode.create(
+        node.from.froms.map((from) =>
+          from.kind === "TableNode" && isTable(from.table, this.#table)
+            ? AliasNode.create(from, IdentifierNode.create(alias))
+            : from
+        )
+      ),
+    };
+  }
+
+  async transformResult(args) {
+    return args.result;
+  }
+}
+
+function tableName(table) {
+  const schema = table.includes(".")
+    ? table.slice(0, table.lastIndexOf("."))
+    : undefined;
+
+  return { schema, name: table.slice(table.lastIndexOf(".") + 1) };
+}
+
+// References without a schema match a table of any schema, like they do in
+// sql.
+function isTable(node, { schema, name }) {
+  return (
+    node.identifier.name === name &&
+    (!node.schema || node.schema.name === schema)
+  );
+}
+
+// The most levels of subqueries nested in a query node.
+function subqueryDepth(node) {
+  let depth = 0;
+  const visit = (value, level) => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, level));
+    } else if (value?.kind && value.kind !== "ValueNode") {
+      const nested = value.kind === "SelectQueryNode" ? level + 1 : level;
+      depth = Math.max(depth, nested);
+      Object.values(value).forEach((child) => visit(child, nested));
+    }
+  };
+
+  Object.values(node).forEach((child) => visit(child, 0));
+
+  return depth;
+}
+
+// Rewrites references qualified with the target table name to the generated
+// alias, leaving the relation's own correlations with the parent row untouched.
+// References to the parent inside nested relations are rewritten as well,
+// since from their point of view this subquery is the parent.
+class TableAliasTransformer extends OperationNodeTransformer {
+  #table;
+  #alias;
+  #correlations;
+
+  constructor(table, alias, correlations) {
+    super();
+    this.#table = table;
+    this.#alias = alias;
+    this.#correlations = correlations;
+  }
+
+  transformReference(node) {
+    const table = node.table?.table;
+
+    if (!table || !isTable(table, this.#table)) {
+      return super.transformReference(node);
+    }
+
+    return { ...node, table: TableNode.create(this.#alias) };
+  }
+
+  transformRaw(node) {
+    if (this.#correlations.has(node)) {
+      return node;
+    }
+
+    const transformed = super.transformRaw(node);
+
+    // Keep nested relations recognizable after they've been rewritten.
+    if (relationResults.has(node)) {
+      relationResults.set(transformed, relationResults.get(node));
+    }
+
+    return transformed;
+  }
+}
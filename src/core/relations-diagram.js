@@ -0,0 +1,35 @@
+// Prints described relations as a Mermaid entity relationship diagram, with
+// one line per relation from its table to its target.
+export function printMermaid(tables) {
+  const lines = ["erDiagram"];
+
+  for (const relations of Object.values(tables)) {
+    for (const metadata of Object.values(relations)) {
+      const targets = metadata.targets
+        ? Object.values(metadata.targets).map(({ target }) => target)
+        : [metadata.target];
+
+      for (const target of targets) {
+        lines.push(
+          `  ${metadata.table} ${parentSide(metadata)}--${targetSide(metadata)} ${target} : ${JSON.stringify(metadata.name)}`
+        );
+      }
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+// Relations holding the key on the parent, or going through other tables, can
+// be shared by many parent rows.
+function parentSide({ kind }) {
+  return kind.startsWith("belongsTo") ||
+    kind.endsWith("Through") ||
+    kind === "morphTo"
+    ? "}o"
+    : "||";
+}
+
+function targetSide({ cardinality }) {
+  return { one: "o|", oneNotNull: "||", many: "o{" }[cardinality];
+}
@@ -0,0 +1,79 @@
+import { type Kysely } from "kysely";
+
+type GeneratorDialect = "postgres" | "mysql" | "sqlite";
+
+interface ForeignKey {
+  table: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+/**
+ * A primary key or unique index, used to tell hasOne from hasMany.
+ */
+interface UniqueKey {
+  table: string;
+  columns: string[];
+}
+
+interface DatabaseSchema {
+  tables: { name: string; columns: string[] }[];
+  foreignKeys: ForeignKey[];
+  uniqueKeys: UniqueKey[];
+}
+
+interface IntrospectOptions {
+  dialect: GeneratorDialect;
+  /**
+   * The postgres schema to introspect, `public` by default. MySQL uses the
+   * current database.
+   */
+  schema?: string;
+}
+
+interface PrintOptions {
+  dialect: GeneratorDialect;
+  /**
+   * Where `createRelationsBuilder` is imported from, the dialect's subpath of
+   * this package by default.
+   */
+  importPath?: string;
+  /**
+   * Where the database type is imported from, `kysely-codegen` by default.
+   */
+  typesImport?: string;
+  /**
+   * The name of the database type, `DB` by default.
+   */
+  typesName?: string;
+}
+
+type GenerateRelationsOptions = IntrospectOptions & PrintOptions;
+
+/**
+ * Reads the tables, foreign keys and unique keys of a database.
+ */
+declare function introspectSchema(
+  db: Kysely<any>,
+  options: IntrospectOptions
+): Promise<DatabaseSchema>;
+
+/**
+ * Prints a module defining the relations of every table with foreign keys,
+ * and a `relationSchema` for `createQuery`.
+ */
+declare function printRelations(
+  schema: DatabaseSchema,
+  options: PrintOptions
+): string;
+
+/**
+ * Introspects a database and prints the relations module.
+ */
+declare function generateRelations(
+  db: Kysely<any>,
+  options: GenerateRelationsOptions
+): Promise<string>;
+
+export { generateRelations, introspectSchema, printRelations };
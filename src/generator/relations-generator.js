@@ -0,0 +1,392 @@
+import { sql } from "kysely";
+
+export async function generateRelations(db, options) {
+  return printRelations(await introspectSchema(db, options), options);
+}
+
+export async function introspectSchema(db, options) {
+  const schema = options.schema ?? defaultSchema(options.dialect);
+  const tables = (await db.introspection.getTables())
+    .filter(
+      (table) =>
+        !table.isView && (schema === undefined || table.schema === schema)
+    )
+    .map((table) => ({
+      name: table.name,
+      columns: table.columns.map((column) => column.name),
+    }));
+  const introspect = introspectors[options.dialect];
+
+  if (!introspect) {
+    throw new Error(`Unsupported dialect "${options.dialect}"`);
+  }
+
+  const { foreignKeys, uniqueKeys } = await introspect(db, tables, schema);
+
+  return {
+    tables,
+    foreignKeys: foreignKeys.sort(
+      (a, b) =>
+        a.table.localeCompare(b.table) ||
+        a.columns.join().localeCompare(b.columns.join())
+    ),
+    uniqueKeys,
+  };
+}
+
+function defaultSchema(dialect) {
+  return dialect === "postgres" ? "public" : undefined;
+}
+
+const introspectors = {
+  postgres: async (db, tables, schema) => {
+    const foreignKeys = await sql`
+      select src.relname as "table",
+        json_agg(src_attr.attname order by key.position) as "columns",
+        tgt.relname as "referencedTable",
+        json_agg(tgt_attr.attname order by key.position) as "referencedColumns"
+      from pg_constraint con
+      join pg_class src on src.oid = con.conrelid
+      join pg_class tgt on tgt.oid = con.confrelid
+      join pg_namespace ns on ns.oid = con.connamespace
+      cross join unnest(con.conkey, con.confkey) with ordinality
+        as key(column_number, referenced_number, position)
+      join pg_attribute src_attr on src_attr.attrelid = con.conrelid
+        and src_attr.attnum = key.column_number
+      join pg_attribute tgt_attr on tgt_attr.attrelid = con.confrelid
+        and tgt_attr.attnum = key.referenced_number
+      where con.contype = 'f' and ns.nspname = ${schema}
+      group by con.oid, src.relname, tgt.relname
+    `.execute(db);
+    const uniqueKeys = await sql`
+      select tbl.relname as "table",
+        json_agg(attr.attname order by key.position) as "columns"
+      from pg_index idx
+      join pg_class tbl on tbl.oid = idx.indrelid
+      join pg_namespace ns on ns.oid = tbl.relnamespace
+      cross join unnest(idx.indkey::int2[]) with ordinality
+        as key(column_number, position)
+      join pg_attribute attr on attr.attrelid = idx.indrelid
+        and attr.attnum = key.column_number
+      where idx.indisunique and idx.indpred is null
+        and idx.indexprs is null and ns.nspname = ${schema}
+      group by idx.indexrelid, tbl.relname
+    `.execute(db);
+
+    return { foreignKeys: foreignKeys.rows, uniqueKeys: uniqueKeys.rows };
+  },
+
+  mysql: async (db) => {
+    const foreignKeys = await sql`
+      select table_name as \`table\`, constraint_name as \`name\`,
+        column_name as \`column\`,
+        referenced_table_name as \`referencedTable\`,
+        referenced_column_name as \`referencedColumn\`
+      from information_schema.key_column_usage
+      where table_schema = database() and referenced_table_name is not null
+      order by table_name, constraint_name, ordinal_position
+    `.execute(db);
+    const uniqueKeys = await sql`
+      select table_name as \`table\`, index_name as \`name\`,
+        column_name as \`column\`
+      from information_schema.statistics
+      where table_schema = database() and non_unique = 0
+      order by table_name, index_name, seq_in_index
+    `.execute(db);
+
+    return {
+      foreignKeys: groupKeyColumns(foreignKeys.rows).map((key) => ({
+        table: key.table,
+        columns: key.rows.map((row) => row.column),
+        referencedTable: key.rows[0].referencedTable,
+        referencedColumns: key.rows.map((row) => row.referencedColumn),
+      })),
+      uniqueKeys: groupKeyColumns(uniqueKeys.rows).map((key) => ({
+        table: key.table,
+        columns: key.rows.map((row) => row.column),
+      })),
+    };
+  },
+
+  sqlite: async (db, tables) => {
+    const foreignKeys = [];
+    const uniqueKeys = [];
+
+    for (const { name: table } of tables) {
+      const primaryKey = await sqlitePrimaryKey(db, table);
+      const { rows } = await sql`
+        select "id" as "name", "table" as "referencedTable", "from" as "column",
+          "to" as "referencedColumn"
+        from pragma_foreign_key_list(${table})
+        order by "id", "seq"
+      `.execute(db);
+
+      for (const key of groupKeyColumns(
+        rows.map((row) => ({ ...row, table }))
+      )) {
+        const { referencedTable } = key.rows[0];
+        // Foreign keys without columns reference the primary key.
+        const referencedColumns =
+          key.rows[0].referencedColumn === null
+            ? await sqlitePrimaryKey(db, referencedTable)
+            : key.rows.map((row) => row.referencedColumn);
+
+        foreignKeys.push({
+          table,
+          columns: key.rows.map((row) => row.column),
+          referencedTable,
+          referencedColumns,
+        });
+      }
+
+      if (primaryKey.length > 0) {
+        uniqueKeys.push({ table, columns: primaryKey });
+      }
+
+      const indexes = await sql`
+        select "name" from pragma_index_list(${table})
+        where "unique" = 1 and "partial" = 0
+      `.execute(db);
+
+      for (const index of indexes.rows) {
+        const columns = await sql`
+          select "name" from pragma_index_info(${index.name}) order by "seqno"
+        `.execute(db);
+
+        // Expression indexes have columns without a name.
+        if (columns.rows.every((column) => column.name !== null)) {
+          uniqueKeys.push({
+            table,
+            columns: columns.rows.map((column) => column.name),
+          });
+        }
+      }
+    }
+
+    return { foreignKeys, uniqueKeys };
+  },
+};
+
+async function sqlitePrimaryKey(db, table) {
+  const { rows } = await sql`
+    select "name" from pragma_table_info(${table}) where "pk" > 0 order by "pk"
+  `.execute(db);
+
+  return rows.map((row) => row.name);
+}
+
+// Groups rows holding one column of a key each by table and key name.
+function groupKeyColumns(rows) {
+  const keys = new Map();
+
+  for (const row of rows) {
+    const id = `${row.table}\0${row.name}`;
+
+    if (!keys.has(id)) {
+      keys.set(id, { table: row.table, rows: [] });
+    }
+
+    keys.get(id).rows.push(row);
+  }
+
+  return [...keys.values()];
+}
+
+export function printRelations(schema, options) {
+  const importPath =
+    options.importPath ?? `kysely-relations/${options.dialect}`;
+  const typesImport = options.typesImport ?? "kysely-codegen";
+  const typesName = options.typesName ?? "DB";
+  const relationsByTable = inferRelations(schema);
+  const tables = [...relationsByTable.keys()].sort();
+  const lines = [
+    "// Generated from the database's foreign keys.",
+    `import { createRelationsBuilder } from ${JSON.stringify(importPath)};`,
+    `import type { ${typesName} } from ${JSON.stringify(typesImport)};`,
+    "",
+    `const relations = createRelationsBuilder<${typesName}>();`,
+  ];
+
+  for (const table of tables) {
+    const relations = relationsByTable
+      .get(table)
+      .sort((a, b) => (a.name < b.name ? -1 : 1));
+    const functions = [...new Set(relations.map(({ kind }) => kind))].sort();
+
+    lines.push(
+      "",
+      `export const ${camelCase(table)}Relations = relations(${JSON.stringify(table)}, ({ ${functions.join(", ")} }) => ({`
+    );
+
+    for (const { kind, name, config } of relations) {
+      lines.push(`  ${propertyName(name)}: ${kind}(${JSON.stringify(name)}, {`);
+
+      for (const [key, value] of Object.entries(config)) {
+        lines.push(`    ${key}: ${printKey(value)},`);
+      }
+
+      lines.push("  }),");
+    }
+
+    lines.push("}));");
+  }
+
+  lines.push("", "export const relationSchema = {");
+
+  for (const table of tables) {
+    lines.push(`  ${propertyName(table)}: ${camelCase(table)}Relations,`);
+  }
+
+  lines.push("};", "");
+
+  return lines.join("\n");
+}
+
+// Every foreign key gives a belongsTo on its table and a hasOne or hasMany,
+// depending on whether its columns are unique, on the referenced table. Tables
+// with two foreign keys and no other columns besides unique keys are treated
+// as junction tables and link the two referenced tables with hasManyThrough.
+function inferRelations({ tables, foreignKeys, uniqueKeys }) {
+  const relationsByTable = new Map();
+  const add = (table, kind, name, config) => {
+    const relations = relationsByTable.get(table) ?? [];
+    const names = new Set(relations.map((relation) => relation.name));
+    let uniqueName = names.has(name)
+      ? `${name}Through${pascalCase(config.through ?? config.target)}`
+      : name;
+
+    for (let i = 2; names.has(uniqueName); i++) {
+      uniqueName = `${name}${i}`;
+    }
+
+    relationsByTable.set(table, [
+      ...relations,
+      { kind, name: uniqueName, config },
+    ]);
+  };
+  const isUnique = (table, columns) =>
+    uniqueKeys.some(
+      (key) =>
+        key.table === table &&
+        key.columns.every((column) => columns.includes(column))
+    );
+
+  for (const foreignKey of foreignKeys) {
+    const { table, columns, referencedTable, referencedColumns } = foreignKey;
+    const ambiguous =
+      foreignKeys.filter(
+        (other) =>
+          other.table === table && other.referencedTable === referencedTable
+      ).length > 1;
+    const unique = isUnique(table, columns);
+    const inverseName = unique ? singular(camelCase(table)) : camelCase(table);
+
+    add(table, "belongsTo", belongsToName(foreignKey), {
+      target: referencedTable,
+      column: qualify(table, columns),
+      reference: qualify(referencedTable, referencedColumns),
+    });
+    add(
+      referencedTable,
+      unique ? "hasOne" : "hasMany",
+      ambiguous
+        ? `${inverseName}As${pascalCase(belongsToName(foreignKey))}`
+        : inverseName,
+      {
+        target: table,
+        column: qualify(referencedTable, referencedColumns),
+        reference: qualify(table, columns),
+      }
+    );
+  }
+
+  for (const { name: through, columns } of tables) {
+    const keys = foreignKeys.filter((key) => key.table === through);
+    const keyColumns = keys.flatMap((key) => key.columns);
+    const isJunction =
+      keys.length === 2 &&
+      columns.every(
+        (column) => keyColumns.includes(column) || isUnique(through, [column])
+      );
+
+    if (!isJunction) {
+      continue;
+    }
+
+    for (const [from, to] of [keys, [...keys].reverse()]) {
+      add(
+        from.referencedTable,
+        "hasManyThrough",
+        from.referencedTable === to.referencedTable
+          ? plural(belongsToName(to))
+          : camelCase(to.referencedTable),
+        {
+          target: to.referencedTable,
+          column: qualify(from.referencedTable, from.referencedColumns),
+          reference: qualify(to.referencedTable, to.referencedColumns),
+          through,
+          throughColumn: qualify(through, from.columns),
+          throughReference: qualify(through, to.columns),
+        }
+      );
+    }
+  }
+
+  return relationsByTable;
+}
+
+function belongsToName({ columns, referencedTable }) {
+  return columns.length === 1 && columns[0].endsWith("_id")
+    ? camelCase(columns[0].slice(0, -3))
+    : singular(camelCase(referencedTable));
+}
+
+function qualify(table, columns) {
+  const qualified = columns.map((column) => `${table}.${column}`);
+
+  return qualified.length === 1 ? qualified[0] : qualified;
+}
+
+function printKey(value) {
+  return Array.isArray(value)
+    ? `[${value.map((item) => JSON.stringify(item)).join(", ")}]`
+    : JSON.stringify(value);
+}
+
+function propertyName(name) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function camelCase(name) {
+  return name.replace(/[_\-\s]+(\w)/g, (_, char) => char.toUpperCase());
+}
+
+function pascalCase(name) {
+  const camel = camelCase(name);
+
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+function singular(name) {
+  if (name.endsWith("ies")) {
+    return `${name.slice(0, -3)}y`;
+  }
+
+  if (/(ss|us)$/.test(name)) {
+    return name;
+  }
+
+  if (/(s|x|z|ch|sh)es$/.test(name)) {
+    return name.slice(0, -2);
+  }
+
+  return name.endsWith("s") ? name.slice(0, -1) : name;
+}
+
+function plural(name) {
+  if (/[^aeiou]y$/.test(name)) {
+    return `${name.slice(0, -1)}ies`;
+  }
+
+  return /(s|x|z|ch|sh)$/.test(name) ? `${name}es` : `${name}s`;
+}
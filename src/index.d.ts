@@ -0,0 +1,38 @@
+import { type Kysely } from "kysely";
+import { type RelationsAdapter } from "./core/relations-builder.js";
+import { mssqlAdapter } from "./mssql/adapter.js";
+import { mysqlAdapter } from "./mysql/adapter.js";
+import { postgresAdapter } from "./postgres/adapter.js";
+import { sqliteAdapter } from "./sqlite/adapter.js";
+
+/**
+ * Picks the adapter matching the dialect of a Kysely instance, throwing for
+ * dialects without one.
+ */
+declare function detectAdapter(db: Kysely<any>): RelationsAdapter;
+
+export type {
+  DescribedRelations,
+  DialectTypes,
+  MorphToMetadata,
+  RelationLoader,
+  RelationLoaders,
+  RelationMetadata,
+  RelationPage,
+  RelationPageOptions,
+  RelationsAdapter,
+  RelationsBuilder,
+  RelationsBuilderOptions,
+} from "./core/relations-builder.js";
+export {
+  createLoaders,
+  createQuery,
+  createRelationsBuilder,
+} from "./core/relations-builder.js";
+export {
+  detectAdapter,
+  mssqlAdapter,
+  mysqlAdapter,
+  postgresAdapter,
+  sqliteAdapter,
+};
@@ -0,0 +1,40 @@
+import {
+  MssqlAdapter,
+  MysqlAdapter,
+  PostgresAdapter,
+  SqliteAdapter,
+} from "kysely";
+import { mssqlAdapter } from "./mssql/adapter.js";
+import { mysqlAdapter } from "./mysql/adapter.js";
+import { postgresAdapter } from "./postgres/adapter.js";
+import { sqliteAdapter } from "./sqlite/adapter.js";
+
+export {
+  createLoaders,
+  createQuery,
+  createRelationsBuilder,
+} from "./core/relations-builder.js";
+export { mssqlAdapter, mysqlAdapter, postgresAdapter, sqliteAdapter };
+
+const adapters = [
+  [PostgresAdapter, postgresAdapter],
+  [MysqlAdapter, mysqlAdapter],
+  [SqliteAdapter, sqliteAdapter],
+  [MssqlAdapter, mssqlAdapter],
+];
+
+// Picks the adapter matching the dialect of a Kysely instance. Third party
+// dialects reuse kysely's adapters for the database they target, so this works
+// for drivers such as pglite as well.
+export function detectAdapter(db) {
+  const dialectAdapter = db.getExecutor().adapter;
+  const match = adapters.find(([type]) => dialectAdapter instanceof type);
+
+  if (!match) {
+    throw new Error(
+      `No relations adapter for ${dialectAdapter.constructor.name}, pass one to createRelationsBuilder explicitly`
+    );
+  }
+
+  return match[1];
+}
@@ -0,0 +1,97 @@
+import { sql } from "kysely";
+import { jsonColumns } from "../core/json-object.js";
+import { POSITION_COLUMN } from "../core/relations-builder.js";
+
+export const mssqlAdapter = {
+  name: "mssql",
+  countAll,
+  exists,
+  jsonArray,
+  jsonArrayFrom,
+  jsonObject,
+  jsonObjectFrom,
+  limit,
+  orderedJsonArrayFrom,
+};
+
+function countAll(eb) {
+  return eb.fn.countAll();
+}
+
+// SQL Server has no boolean type, so exists is turned into a bit.
+function exists(eb, subquery) {
+  return sql`case when ${eb.exists(subquery)} then 1 else 0 end`;
+}
+
+// json_array requires SQL Server 2022 or later. It's only used by strict mode.
+function jsonArray(values) {
+  return sql`json_array(${sql.join(values)} null on null)`;
+}
+
+// A for json path select without a from clause builds a single object.
+function jsonObject(values) {
+  const columns = sql.join(
+    Object.entries(values).map(
+      ([name, value]) => sql`${value} as ${sql.id(name)}`
+    )
+  );
+
+  return sql`json_query((select ${columns} for json path, include_null_values, without_array_wrapper))`;
+}
+
+// for json path gives null for no rows, so arrays fall back to '[]'.
+// json_query marks the text as json, keeping it from being escaped as a string
+// when it's nested in another relation.
+function jsonArrayFrom(expr) {
+  const columns = mssqlJsonColumns(expr, "agg");
+
+  return sql`json_query(coalesce((select ${columns} from ${derived(expr)} as agg for json path, include_null_values), '[]'))`;
+}
+
+function jsonObjectFrom(expr) {
+  const columns = mssqlJsonColumns(expr, "obj");
+
+  return sql`json_query((select ${columns} from ${derived(expr)} as obj for json path, include_null_values, without_array_wrapper))`;
+}
+
+function orderedJsonArrayFrom(expr) {
+  const columns = mssqlJsonColumns(expr, "agg");
+  const position = sql.ref(`agg.${POSITION_COLUMN}`);
+
+  return sql`json_query(coalesce((select ${columns} from ${derived(expr)} as agg order by ${position} for json path, include_null_values), '[]'))`;
+}
+
+// SQL Server has no limit clause. A plain limit becomes top, while an offset
+// needs offset fetch, which in turn needs an order by clause.
+function limit(qb, { limit, offset }) {
+  if (offset === undefined) {
+    return limit === undefined ? qb : qb.top(limit);
+  }
+
+  if (!qb.toOperationNode().orderBy) {
+    qb = qb.orderBy(sql`(select null)`);
+  }
+
+  qb = qb.offset(offset);
+
+  return limit === undefined ? qb : qb.fetch(limit);
+}
+
+// Derived tables can only be ordered together with top or offset.
+function derived(expr) {
+  const node = expr.toOperationNode();
+
+  return node.orderBy && !node.top && !node.offset ? expr.offset(0) : expr;
+}
+
+// Nested relations are plain text once selected from a derived table, so
+// json_query turns them back into json.
+function mssqlJsonColumns(expr, table) {
+  return sql.join(
+    jsonColumns(expr.toOperationNode()).map(({ name, isRelation }) => {
+      const ref = sql.ref(`${table}.${name}`);
+
+      return sql`${isRelation ? sql`json_query(${ref})` : ref} as ${sql.id(name)}`;
+    })
+  );
+}
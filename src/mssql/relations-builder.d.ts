@@ -0,0 +1,19 @@
+import { type Kysely } from "kysely";
+import {
+  createLoaders,
+  type RelationalQuery,
+  type RelationsBuilder,
+  type RelationsBuilderOptions,
+} from "../core/relations-builder.js";
+import { mssqlAdapter } from "./adapter.js";
+
+declare function createRelationsBuilder<DB>(
+  options?: RelationsBuilderOptions<DB>
+): RelationsBuilder<DB, NonNullable<(typeof mssqlAdapter)["dialectTypes"]>>;
+
+declare function createQuery<DB, Schema>(
+  db: Kysely<DB>,
+  schema: Schema
+): RelationalQuery<DB, Schema>;
+
+export { createLoaders, createQuery, createRelationsBuilder, mssqlAdapter };
@@ -0,0 +1,17 @@
+import {
+  createLoaders,
+  createQuery as createCoreQuery,
+  createRelationsBuilder as createCoreRelationsBuilder,
+} from "../core/relations-builder.js";
+import { mssqlAdapter } from "./adapter.js";
+
+export { createLoaders, mssqlAdapter };
+
+export function createRelationsBuilder(options = {}) {
+  return createCoreRelationsBuilder({ ...options, adapter: mssqlAdapter });
+}
+
+// Root queries are paged with the adapter too, as SQL Server has no limit.
+export function createQuery(db, schema) {
+  return createCoreQuery(db, schema, { adapter: mssqlAdapter });
+}
@@ -0,0 +1,47 @@
+import { sql } from "kysely";
+import { jsonArrayFrom, jsonObjectFrom } from "kysely/helpers/mysql";
+import { jsonObjectArgs, jsonObjectEntries } from "../core/json-object.js";
+import { POSITION_COLUMN } from "../core/relations-builder.js";
+
+export const mysqlAdapter = {
+  name: "mysql",
+  countAll,
+  jsonArray,
+  jsonArrayFrom,
+  jsonObject,
+  jsonObjectFrom,
+  orderedJsonArrayFrom,
+  limit,
+};
+
+function countAll(eb) {
+  return eb.fn.countAll();
+}
+
+// MySQL only takes an offset after a limit, so a missing one becomes the
+// largest limit there is.
+function limit(qb, { limit, offset }) {
+  if (limit !== undefined || offset !== undefined) {
+    qb = qb.limit(limit ?? sql.raw("18446744073709551615"));
+  }
+
+  return offset === undefined ? qb : qb.offset(offset);
+}
+
+function jsonArray(values) {
+  return sql`json_array(${sql.join(values)})`;
+}
+
+function jsonObject(values) {
+  return sql`json_object(${sql.join(jsonObjectEntries(values))})`;
+}
+
+// json_arrayagg has no order by clause, but used as a window function it
+// aggregates rows in window order. The frame spans every row, so the first
+// row already holds the complete array.
+function orderedJsonArrayFrom(expr) {
+  const args = sql.join(jsonObjectArgs(expr.toOperationNode(), "agg"));
+  const position = sql.ref(`agg.${POSITION_COLUMN}`);
+
+  return sql`(select cast(coalesce((select json_arrayagg(json_object(${args})) over (order by ${position} rows between unbounded preceding and unbounded following) from ${expr} as agg limit 1), '[]') as json))`;
+}
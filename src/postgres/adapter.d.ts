@@ -0,0 +1,8 @@
+import { type RelationsAdapter } from "../core/relations-builder.js";
+
+declare const postgresAdapter: RelationsAdapter<{
+  existsResult: boolean;
+  lateralJoins: true;
+}>;
+
+export { postgresAdapter };
@@ -0,0 +1,56 @@
+import { sql } from "kysely";
+import { jsonArrayFrom, jsonObjectFrom } from "kysely/helpers/postgres";
+import { jsonObjectEntries } from "../core/json-object.js";
+import { POSITION_COLUMN } from "../core/relations-builder.js";
+
+export const postgresAdapter = {
+  name: "postgres",
+  countAll,
+  jsonArray,
+  jsonArrayFrom,
+  jsonObject,
+  jsonObjectFrom,
+  orderedJsonArrayFrom,
+  lateralJsonFrom,
+};
+
+// count(*) is a bigint in postgres, which the driver returns as a string.
+function countAll(eb) {
+  return eb.cast(eb.fn.countAll(), "integer");
+}
+
+function jsonArray(values) {
+  return sql`json_build_array(${sql.join(values)})`;
+}
+
+function jsonObject(values) {
+  return sql`json_build_object(${sql.join(jsonObjectEntries(values))})`;
+}
+
+// json_agg only keeps the order of its input when told to, so rows are
+// aggregated by their position and the position column is dropped from them.
+function orderedJsonArrayFrom(expr) {
+  return sql`(select ${orderedJsonAgg()} from ${expr} as agg)`;
+}
+
+function lateralJsonFrom(relationName, expr, { many, ordered }) {
+  const name = sql.ref(relationName);
+
+  // A scalar subquery keeps the joined row single, and fails like the select
+  // list does when more than one row matches.
+  if (!many) {
+    return sql`(select (select to_json(obj) from ${expr} as obj) as ${name})`;
+  }
+
+  if (ordered) {
+    return sql`(select ${orderedJsonAgg()} as ${name} from ${expr} as agg)`;
+  }
+
+  return sql`(select coalesce(json_agg(agg), '[]') as ${name} from ${expr} as agg)`;
+}
+
+function orderedJsonAgg() {
+  const position = sql.ref(`agg.${POSITION_COLUMN}`);
+
+  return sql`coalesce(jsonb_agg(to_jsonb(agg) - ${sql.lit(POSITION_COLUMN)} order by ${position}), '[]')`;
+}
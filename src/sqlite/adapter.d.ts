@@ -0,0 +1,8 @@
+import { type RelationsAdapter } from "../core/relations-builder.js";
+
+declare const sqliteAdapter: RelationsAdapter<{
+  existsResult: 0 | 1;
+  lateralJoins: false;
+}>;
+
+export { sqliteAdapter };
@@ -0,0 +1,65 @@
+import { sql } from "kysely";
+import { jsonObjectArgs, jsonObjectEntries } from "../core/json-object.js";
+import { POSITION_COLUMN } from "../core/relations-builder.js";
+
+export const sqliteAdapter = {
+  name: "sqlite",
+  countAll,
+  jsonArray,
+  jsonArrayFrom,
+  jsonObject,
+  jsonObjectFrom,
+  orderedJsonArrayFrom,
+  limit,
+};
+
+function countAll(eb) {
+  return eb.fn.countAll();
+}
+
+// SQLite only takes an offset after a limit, where a negative one is no limit.
+function limit(qb, { limit, offset }) {
+  if (limit !== undefined || offset !== undefined) {
+    qb = qb.limit(limit ?? sql.lit(-1));
+  }
+
+  return offset === undefined ? qb : qb.offset(offset);
+}
+
+function jsonArray(values) {
+  return sql`json_array(${sql.join(values)})`;
+}
+
+function jsonObject(values) {
+  return sql`json_object(${sql.join(jsonObjectEntries(values))})`;
+}
+
+function jsonArrayFrom(expr) {
+  const args = sql.join(sqliteJsonObjectArgs(expr, "agg"));
+
+  return sql`(select coalesce(json_group_array(json_object(${args})), '[]') from ${expr} as agg)`;
+}
+
+function jsonObjectFrom(expr) {
+  const args = sql.join(sqliteJsonObjectArgs(expr, "obj"));
+
+  return sql`(select json_object(${args}) from ${expr} as obj)`;
+}
+
+// Ordering inside json_group_array requires SQLite 3.44 or later.
+function orderedJsonArrayFrom(expr) {
+  const args = sql.join(sqliteJsonObjectArgs(expr, "agg"));
+  const position = sql.ref(`agg.${POSITION_COLUMN}`);
+
+  return sql`(select coalesce(json_group_array(json_object(${args}) order by ${position}), '[]') from ${expr} as agg)`;
+}
+
+// A nested relation loses its json subtype when selected from the subquery,
+// so json() turns the text back into json instead of embedding it as a string.
+function sqliteJsonObjectArgs(expr, table) {
+  return jsonObjectArgs(
+    expr.toOperationNode(),
+    table,
+    (ref) => sql`json(${ref})`
+  );
+}
@@ -1,73 +1,17 @@
-import { expressionBuilder, sql } from "kysely";
-import { jsonArrayFrom, jsonObjectFrom } from "kysely/helpers/sqlite";
+import {
+  createLoaders,
+  createQuery as createCoreQuery,
+  createRelationsBuilder as createCoreRelationsBuilder,
+} from "../core/relations-builder.js";
+import { sqliteAdapter } from "./adapter.js";
 
-export function createRelationsBuilder() {
-  return function relations(table, relationBuilder) {
-    return relationBuilder({ hasOne, hasOneNotNull, hasMany, hasManyThrough });
-  };
-}
-
-function hasOne(relationName, config, customizeQuery) {
-  const query = relationQueryFactory(config, customizeQuery);
-  const queryWithColumn = query(sql.ref(config.column));
-  const include = (selectFunc) => {
-    return () => jsonObjectFrom(selectFunc(queryWithColumn)).as(relationName);
-  };
-
-  return include;
-}
-
-function hasOneNotNull(relationName, config, customizeQuery) {
-  const query = relationQueryFactory(config, customizeQuery);
-  const queryWithColumn = query(sql.ref(config.column));
-  const include = (selectFunc) => {
-    return () => jsonObjectFrom(selectFunc(queryWithColumn)).as(relationName);
-  };
-
-  return include;
-}
-
-function hasMany(relationName, config, configureQuery) {
-  const query = relationQueryFactory(config, configureQuery);
-  const queryWithColumn = query(sql.ref(config.column));
-  const include = (selectFunc) => {
-    return () => jsonArrayFrom(selectFunc(queryWithColumn)).as(relationName);
-  };
+export { createLoaders, sqliteAdapter };
 
-  return include;
+export function createRelationsBuilder(options = {}) {
+  return createCoreRelationsBuilder({ ...options, adapter: sqliteAdapter });
 }
 
-function hasManyThrough(relationName, config, configureQuery) {
-  const query = throughRelationQueryFactory(config, configureQuery);
-  const queryWithColumn = query(sql.ref(config.column));
-  const include = (selectFunc) => {
-    return () => jsonArrayFrom(selectFunc(queryWithColumn)).as(relationName);
-  };
-
-  return include;
-}
-
-function relationQueryFactory(config, customizeQuery) {
-  customizeQuery = customizeQuery ?? ((v) => v);
-  const baseQuery = customizeQuery(
-    expressionBuilder().selectFrom(config.target)
-  );
-
-  return (expression) => baseQuery.where(config.reference, "=", expression);
+// Root queries are paged with the adapter too, for offsets without a limit.
+export function createQuery(db, schema) {
+  return createCoreQuery(db, schema, { adapter: sqliteAdapter });
 }
-
-function throughRelationQueryFactory(config, customizeQuery) {
-  customizeQuery = customizeQuery ?? ((v) => v);
-  const baseQuery = customizeQuery(
-    expressionBuilder().selectFrom(config.target)
-  );
-  const baseSubQuery = expressionBuilder()
-    .selectFrom(config.through)
-    .select(config.throughReference);
-
-  return (expression) =>
-    baseQuery.where(config.reference, "in", () =>
-      baseSubQuery.where(config.throughColumn, "=", expression)
-    );
-}
-
@@ -0,0 +1,725 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import {
+  type Compilable,
+  DialectAdapterBase,
+  DummyDriver,
+  Kysely,
+  MssqlAdapter,
+  MssqlIntrospector,
+  MssqlQueryCompiler,
+  MysqlAdapter,
+  MysqlIntrospector,
+  MysqlQueryCompiler,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  SqliteAdapter,
+  SqliteIntrospector,
+  SqliteQueryCompiler,
+} from "kysely";
+import {
+  detectAdapter,
+  mssqlAdapter,
+  mysqlAdapter,
+  postgresAdapter,
+  sqliteAdapter,
+} from "../src/index.js";
+import {
+  createQuery as createMssqlQuery,
+  createRelationsBuilder as createMssqlRelationsBuilder,
+} from "../src/mssql/relations-builder.js";
+import { createRelationsBuilder as createMysqlRelationsBuilder } from "../src/mysql/relations-builder.js";
+import { createRelationsBuilder as createSqliteRelationsBuilder } from "../src/sqlite/relations-builder.js";
+
+interface Database {
+  users: { id: number; name: string };
+  posts: {
+    id: number;
+    user_id: number | null;
+    title: string;
+    published: boolean;
+  };
+  accounts: { tenant_id: number; id: number };
+  groups: { tenant_id: number; id: number };
+  account_groups: {
+    tenant_id: number;
+    account_id: number;
+    group_id: number;
+    role: string;
+  };
+}
+
+// Compiles queries without a database connection so the mysql, sqlite and
+// mssql builds can be checked locally.
+const mysql = new Kysely<Database>({
+  dialect: {
+    createAdapter: () => new MysqlAdapter(),
+    createDriver: () => new DummyDriver(),
+    createIntrospector: (db) => new MysqlIntrospector(db),
+    createQueryCompiler: () => new MysqlQueryCompiler(),
+  },
+});
+
+const sqlite = new Kysely<Database>({
+  dialect: {
+    createAdapter: () => new SqliteAdapter(),
+    createDriver: () => new DummyDriver(),
+    createIntrospector: (db) => new SqliteIntrospector(db),
+    createQueryCompiler: () => new SqliteQueryCompiler(),
+  },
+});
+
+const mssql = new Kysely<Database>({
+  dialect: {
+    createAdapter: () => new MssqlAdapter(),
+    createDriver: () => new DummyDriver(),
+    createIntrospector: (db) => new MssqlIntrospector(db),
+    createQueryCompiler: () => new MssqlQueryCompiler(),
+  },
+});
+
+function compile(query: Compilable) {
+  return query.compile().sql;
+}
+
+describe("mysql", () => {
+  const relations = createMysqlRelationsBuilder<Database>();
+
+  describe("belongsTo", () => {
+    test("should compile to a single row json object", () => {
+      const postRelations = relations("posts", ({ belongsTo }) => ({
+        author: belongsTo("author", {
+          target: "users",
+          column: "posts.user_id",
+          reference: "users.id",
+        })((qb) => qb.select("name")),
+      }));
+
+      const sql = compile(
+        mysql
+          .selectFrom("posts")
+          .select((eb) => ["id", postRelations.author(eb)])
+      );
+
+      assert.strictEqual(
+        sql,
+        "select `id`, (select json_object('name', `obj`.`name`) from (select `name` from `users` as `users_1` where `users_1`.`id` = `posts`.`user_id` limit ?) as obj) as `author` from `posts`"
+      );
+    });
+  });
+
+  describe("aggregates", () => {
+    test("should compile count and exists subqueries", () => {
+      const userRelations = relations("users", ({ hasMany }) => ({
+        posts: hasMany("posts", {
+          target: "posts",
+          column: "users.id",
+          reference: "posts.user_id",
+        }),
+      }));
+
+      const sql = compile(
+        mysql
+          .selectFrom("users")
+          .select((eb) => [
+            userRelations.posts.count(eb),
+            userRelations.posts.exists(eb),
+          ])
+      );
+
+      assert.strictEqual(
+        sql,
+        "select (select count(*) as `count` from `posts` as `posts_1` where `posts_1`.`user_id` = `users`.`id`) as `postsCount`, exists (select 1 as `exists` from `posts` as `posts_1` where `posts_1`.`user_id` = `users`.`id`) as `postsExists` from `users`"
+      );
+    });
+  });
+
+  describe("ordering", () => {
+    test("should aggregate rows in window order", () => {
+      const userRelations = relations("users", ({ hasMany }) => ({
+        posts: hasMany("posts", {
+          target: "posts",
+          column: "users.id",
+          reference: "posts.user_id",
+        }),
+      }));
+
+      const sql = compile(
+        mysql.selectFrom("users").select(
+          userRelations.posts((qb) => qb.select("title"), {
+            orderBy: [["title", "desc"]],
+            limit: 5,
+          })
+        )
+      );
+
+      assert.strictEqual(
+        sql,
+        "select (select cast(coalesce((select json_arrayagg(json_object('title', `agg`.`title`)) over (order by `agg`.`__position` rows between unbounded preceding and unbounded following) from (select `title`, row_number() over(order by `title` desc) as `__position` from `posts` as `posts_1` where `posts_1`.`user_id` = `users`.`id` order by `title` desc limit ?) as agg limit 1), '[]') as json)) as `posts` from `users`"
+      );
+    });
+
+    test("should limit rows that are only offset", () => {
+      const userRelations = relations("users", ({ hasMany }) => ({
+        posts: hasMany("posts", {
+          target: "posts",
+          column: "users.id",
+          reference: "posts.user_id",
+        }),
+      }));
+
+      const sql = compile(
+        mysql
+          .selectFrom("users")
+          .select(
+            userRelations.posts((qb) => qb.select("title"), { offset: 10 })
+          )
+      );
+
+      assert.strictEqual(
+        sql,
+        "select (select cast(coalesce(json_arrayagg(json_object('title', `agg`.`title`)), '[]') as json) from (select `title` from `posts` as `posts_1` where `posts_1`.`user_id` = `users`.`id` limit 18446744073709551615 offset ?) as agg) as `posts` from `users`"
+      );
+    });
+  });
+
+  describe("nesting", () => {
+    test("should nest relations of each target table three levels deep", () => {
+      const userRelations = relations("users", ({ hasMany }) => ({
+        posts: hasMany("posts", {
+          target: "posts",
+          column: "users.id",
+          reference: "posts.user_id",
+        }),
+      }));
+      const postRelations = relations("posts", ({ belongsTo }) => ({
+        author: belongsTo("author", {
+          target: "users",
+          column: "posts.user_id",
+          reference: "users.id",
+        }),
+      }));
+
+      const sql = compile(
+        mysql
+          .selectFrom("users")
+          .select(
+            userRelations.posts((qb) =>
+              qb.select([
+                "title",
+                postRelations.author((qb) =>
+                  qb.select([
+                    "name",
+                    userRelations.posts((qb) => qb.select("title")),
+                  ])
+                ),
+              ])
+            )
+          )
+      );
+
+      assert.strictEqual(
+        sql,
+        "select (select cast(coalesce(json_arrayagg(json_object('title', `agg`.`title`, 'author', `agg`.`author`)), '[]') as json) from (select `title`, (select json_object('name', `obj`.`name`, 'posts', `obj`.`posts`) from (select `name`, (select cast(coalesce(json_arrayagg(json_object('title', `agg`.`title`)), '[]') as json) from (select `title` from `posts` as `posts_1` where `posts_1`.`user_id` = `users_2`.`id`) as agg) as `posts` from `users` as `users_2` where `users_2`.`id` = `posts_3`.`user_id` limit ?) as obj) as `author` from `posts` as `posts_3` where `posts_3`.`user_id` = `users`.`id`) as agg) as `posts` from `users`"
+      );
+    });
+  });
+});
+
+describe("sqlite", () => {
+  const relations = createSqliteRelationsBuilder<Database>();
+
+  describe("belongsTo", () => {
+    test("should compile to a single row json object", () => {
+      const postRelations = relations("posts", ({ belongsTo }) => ({
+        author: belongsTo("author", {
+          target: "users",
+          column: "posts.user_id",
+          reference: "users.id",
+        })((qb) => qb.select("name")),
+      }));
+
+      const sql = compile(
+        sqlite
+          .selectFrom("posts")
+          .select((eb) => ["id", postRelations.author(eb)])
+      );
+
+      assert.strictEqual(
+        sql,
+        `select "id", (select json_object('name', "obj"."name") from (select "name" from "users" as "users_1" where "users_1"."id" = "posts"."user_id" limit ?) as obj) as "author" from "posts"`
+      );
+    });
+  });
+
+  describe("hasManyThrough", () => {
+    test("should compile composite keys to row value comparisons", () => {
+      const accountRelations = relations("accounts", ({ hasManyThrough }) => ({
+        groups: hasManyThrough("groups", {
+          target: "groups",
+          column: ["accounts.tenant_id", "accounts.id"],
+          reference: ["groups.tenant_id", "groups.id"],
+          through: "account_groups",
+          throughColumn: [
+            "account_groups.tenant_id",
+            "account_groups.account_id",
+          ],
+          throughReference: [
+            "account_groups.tenant_id",
+            "account_groups.group_id",
+          ],
+        })((qb) => qb.select("id")),
+      }));
+
+      const sql = compile(
+        sqlite
+          .selectFrom("accounts")
+          .select((eb) => accountRelations.groups(eb))
+      );
+
+      assert.strictEqual(
+        sql,
+        `select (select coalesce(json_group_array(json_object('id', "agg"."id")), '[]') from (select "id" from "groups" as "groups_2" where ("groups_2"."tenant_id", "groups_2"."id") in (select "account_groups"."tenant_id", "account_groups"."group_id" from "account_groups" where ("account_groups"."tenant_id" = "accounts"."tenant_id" and "account_groups"."account_id" = "accounts"."id"))) as agg) as "groups" from "accounts"`
+      );
+    });
+
+    test("should join the filtered through table to select pivot columns", () => {
+      const accountRelations = relations("accounts", ({ hasManyThrough }) => ({
+        groups: hasManyThrough("groups", {
+          target: "groups",
+          column: ["accounts.tenant_id", "accounts.id"],
+          reference: ["groups.tenant_id", "groups.id"],
+          through: "account_groups",
+          throughColumn: [
+            "account_groups.tenant_id",
+            "account_groups.account_id",
+          ],
+          throughReference: [
+            "account_groups.tenant_id",
+            "account_groups.group_id",
+          ],
+          pivot: ["role"],
+          customizeThrough: (qb) =>
+            qb.where("account_groups.role", "!=", "guest"),
+        }),
+      }));
+
+      const sql = compile(
+        sqlite
+          .selectFrom("accounts")
+          .select(accountRelations.groups((qb) => qb.select("id")))
+      );
+
+      assert.strictEqual(
+        sql,
+        `select (select coalesce(json_group_array(json_object('id', "agg"."id", 'pivot', json("agg"."pivot"))), '[]') from (select "id", json_object('role', "account_groups"."role") as "pivot" from "groups" as "groups_2" inner join (select "account_groups".* from "account_groups" where "account_groups"."role" != ?) as "account_groups" on "groups_2"."tenant_id" = "account_groups"."tenant_id" and "groups_2"."id" = "account_groups"."group_id" where ("account_groups"."tenant_id" = "accounts"."tenant_id" and "account_groups"."account_id" = "accounts"."id")) as agg) as "groups" from "accounts"`
+      );
+    });
+  });
+
+  describe("ordering", () => {
+    test("should aggregate rows by position", () => {
+      const userRelations = relations("users", ({ hasMany }) => ({
+        posts: hasMany("posts", {
+          target: "posts",
+          column: "users.id",
+          reference: "posts.user_id",
+        }),
+      }));
+
+      const sql = compile(
+        sqlite.selectFrom("users").select(
+          userRelations.posts((qb) => qb.select("title"), {
+            orderBy: [["posts.title", "desc"]],
+            limit: 5,
+          })
+        )
+      );
+
+      assert.strictEqual(
+        sql,
+        `select (select coalesce(json_group_array(json_object('title', "agg"."title") order by "agg"."__position"), '[]') from (select "title", row_number() over(order by "posts_1"."title" desc) as "__position" from "posts" as "posts_1" where "posts_1"."user_id" = "users"."id" order by "posts_1"."title" desc limit ?) as agg) as "posts" from "users"`
+      );
+    });
+  });
+
+  describe("deserialization", () => {
+    test("should parse json text and restore column types", async () => {
+      const relations = createSqliteRelationsBuilder<Database>({
+        deserializers: {
+          posts: { published: (value) => value === 1 },
+        },
+      });
+      const userRelations = relations("users", ({ hasMany }) => ({
+        posts: hasMany("posts", {
+          target: "posts",
+          column: "users.id",
+          reference: "posts.user_id",
+        }),
+      }));
+
+      const queryId = { queryId: "deserialization" };
+      const node = sqlite
+        .selectFrom("users")
+        .select([
+          "name",
+          userRelations.posts((qb) => qb.select(["title", "published"])),
+        ])
+        .toOperationNode();
+
+      relations.plugin.transformQuery({ node, queryId });
+      const result = await relations.plugin.transformResult({
+        queryId,
+        result: {
+          rows: [
+            {
+              name: "Ann",
+              posts:
+                '[{"title":"Draft","published":0},{"title":"Live","published":1}]',
+            },
+          ],
+        },
+      });
+
+      assert.deepStrictEqual(result.rows, [
+        {
+          name: "Ann",
+          posts: [
+            { title: "Draft", published: false },
+            { title: "Live", published: true },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe("nesting", () => {
+    test("should nest relations of each target table three levels deep", () => {
+      const userRelations = relations("users", ({ hasMany }) => ({
+        posts: hasMany("posts", {
+          target: "posts",
+          column: "users.id",
+          reference: "posts.user_id",
+        }),
+      }));
+      const postRelations = relations("posts", ({ belongsTo }) => ({
+        author: belongsTo("author", {
+          target: "users",
+          column: "posts.user_id",
+          reference: "users.id",
+        }),
+      }));
+
+      const sql = compile(
+        sqlite
+          .selectFrom("users")
+          .select(
+            userRelations.posts((qb) =>
+              qb.select([
+                "title",
+                postRelations.author((qb) =>
+                  qb.select([
+                    "name",
+                    userRelations.posts((qb) => qb.select("title")),
+                  ])
+                ),
+              ])
+            )
+          )
+      );
+
+      assert.strictEqual(
+        sql,
+        `select (select coalesce(json_group_array(json_object('title', "agg"."title", 'author', json("agg"."author"))), '[]') from (select "title", (select json_object('name', "obj"."name", 'posts', json("obj"."posts")) from (select "name", (select coalesce(json_group_array(json_object('title', "agg"."title")), '[]') from (select "title" from "posts" as "posts_1" where "posts_1"."user_id" = "users_2"."id") as agg) as "posts" from "users" as "users_2" where "users_2"."id" = "posts_3"."user_id" limit ?) as obj) as "author" from "posts" as "posts_3" where "posts_3"."user_id" = "users"."id") as agg) as "posts" from "users"`
+      );
+    });
+
+    test("should build the same sql every time", () => {
+      const userRelations = relations("users", ({ hasMany }) => ({
+        posts: hasMany("posts", {
+          target: "posts",
+          column: "users.id",
+          reference: "posts.user_id",
+        }),
+      }));
+      const query = () =>
+        compile(
+          sqlite
+            .selectFrom("users")
+            .select(userRelations.posts((qb) => qb.select("title")))
+        );
+
+      assert.strictEqual(query(), query());
+    });
+  });
+
+  describe("strict mode", () => {
+    test("should wrap single rows with the parent key", () => {
+      const relations = createSqliteRelationsBuilder<Database>({
+        strict: true,
+      });
+      const postRelations = relations("posts", ({ belongsToNotNull }) => ({
+        author: belongsToNotNull("author", {
+          target: "users",
+          column: "posts.user_id",
+          reference: "users.id",
+        }),
+      }));
+
+      const sql = compile(
+        sqlite
+          .selectFrom("posts")
+          .select(postRelations.author((qb) => qb.select("name")))
+      );
+
+      assert.strictEqual(
+        sql,
+        `select json_array(json_array("posts"."user_id"), (select coalesce(json_group_array(json_object('name', "agg"."name")), '[]') from (select "name" from "users" as "users_1" where "users_1"."id" = "posts"."user_id" limit ?) as agg)) as "author" from "posts"`
+      );
+    });
+  });
+});
+
+describe("mssql", () => {
+  const relations = createMssqlRelationsBuilder<Database>();
+  const userRelations = relations("users", ({ hasMany, hasOne }) => ({
+    posts: hasMany("posts", {
+      target: "posts",
+      column: "users.id",
+      reference: "posts.user_id",
+    }),
+    latestPost: hasOne("latestPost", {
+      target: "posts",
+      column: "users.id",
+      reference: "posts.user_id",
+    }),
+  }));
+  const postRelations = relations("posts", ({ belongsTo }) => ({
+    author: belongsTo("author", {
+      target: "users",
+      column: "posts.user_id",
+      reference: "users.id",
+    }),
+  }));
+
+  describe("belongsTo", () => {
+    test("should compile to a single row json object", () => {
+      const sql = compile(
+        mssql
+          .selectFrom("posts")
+          .select(["id", postRelations.author((qb) => qb.select("name"))])
+      );
+
+      assert.strictEqual(
+        sql,
+        `select "id", json_query((select "obj"."name" as "name" from (select top(1) "name" from "users" as "users_1" where "users_1"."id" = "posts"."user_id") as obj for json path, include_null_values, without_array_wrapper)) as "author" from "posts"`
+      );
+    });
+  });
+
+  describe("empty relations", () => {
+    test("should give null for hasOne and an empty array for hasMany", () => {
+      const sql = compile(
+        mssql
+          .selectFrom("users")
+          .select([
+            userRelations.latestPost((qb) => qb.select("title")),
+            userRelations.posts((qb) => qb.select("title")),
+          ])
+      );
+
+      assert.strictEqual(
+        sql,
+        `select json_query((select "obj"."title" as "title" from (select "title" from "posts" as "posts_1" where "posts_1"."user_id" = "users"."id") as obj for json path, include_null_values, without_array_wrapper)) as "latestPost", json_query(coalesce((select "agg"."title" as "title" from (select "title" from "posts" as "posts_1" where "posts_1"."user_id" = "users"."id") as agg for json path, include_null_values), '[]')) as "posts" from "users"`
+      );
+    });
+  });
+
+  describe("aggregates", () => {
+    test("should compile exists to a bit", () => {
+      const sql = compile(
+        mssql
+          .selectFrom("users")
+          .select((eb) => [
+            userRelations.posts.count(eb),
+            userRelations.posts.exists(eb),
+          ])
+      );
+
+      assert.strictEqual(
+        sql,
+        `select (select count(*) as "count" from "posts" as "posts_1" where "posts_1"."user_id" = "users"."id") as "postsCount", case when exists (select 1 as "exists" from "posts" as "posts_1" where "posts_1"."user_id" = "users"."id") then 1 else 0 end as "postsExists" from "users"`
+      );
+    });
+  });
+
+  describe("ordering", () => {
+    test("should page with offset fetch and order by position", () => {
+      const query = mssql.selectFrom("users").select(
+        userRelations.posts((qb) => qb.select("title"), {
+          orderBy: [["title", "desc"]],
+          limit: 5,
+          offset: 10,
+        })
+      );
+
+      assert.strictEqual(
+        compile(query),
+        `select json_query(coalesce((select "agg"."title" as "title" from (select "title", row_number() over(order by "title" desc) as "__position" from "posts" as "posts_1" where "posts_1"."user_id" = "users"."id" order by "title" desc offset @1 rows fetch next @2 rows only) as agg order by "agg"."__position" for json path, include_null_values), '[]')) as "posts" from "users"`
+      );
+      assert.deepStrictEqual(query.compile().parameters, [10, 5]);
+    });
+
+    test("should limit with top", () => {
+      const sql = compile(
+        mssql
+          .selectFrom("users")
+          .select(userRelations.posts((qb) => qb.select("title"), { limit: 5 }))
+      );
+
+      assert.strictEqual(
+        sql,
+        `select json_query(coalesce((select "agg"."title" as "title" from (select top(5) "title" from "posts" as "posts_1" where "posts_1"."user_id" = "users"."id") as agg for json path, include_null_values), '[]')) as "posts" from "users"`
+      );
+    });
+
+    test("should order unordered subqueries skipping rows", () => {
+      const sql = compile(
+        mssql
+          .selectFrom("users")
+          .select(
+            userRelations.posts((qb) => qb.select("title"), { offset: 10 })
+          )
+      );
+
+      assert.strictEqual(
+        sql,
+        `select json_query(coalesce((select "agg"."title" as "title" from (select "title" from "posts" as "posts_1" where "posts_1"."user_id" = "users"."id" order by (select null) offset @1 rows) as agg for json path, include_null_values), '[]')) as "posts" from "users"`
+      );
+    });
+
+    test("should allow ordering in the subquery", () => {
+      const sql = compile(
+        mssql
+          .selectFrom("users")
+          .select(
+            userRelations.posts((qb) => qb.select("title").orderBy("title"))
+          )
+      );
+
+      assert.strictEqual(
+        sql,
+        `select json_query(coalesce((select "agg"."title" as "title" from (select "title" from "posts" as "posts_1" where "posts_1"."user_id" = "users"."id" order by "title" offset @1 rows) as agg for json path, include_null_values), '[]')) as "posts" from "users"`
+      );
+    });
+  });
+
+  describe("nesting", () => {
+    test("should embed nested relations as json", () => {
+      const sql = compile(
+        mssql
+          .selectFrom("users")
+          .select(
+            userRelations.posts((qb) =>
+              qb.select([
+                "title",
+                postRelations.author((qb) => qb.select("name")),
+              ])
+            )
+          )
+      );
+
+      assert.strictEqual(
+        sql,
+        `select json_query(coalesce((select "agg"."title" as "title", json_query("agg"."author") as "author" from (select "title", json_query((select "obj"."name" as "name" from (select top(1) "name" from "users" as "users_1" where "users_1"."id" = "posts_2"."user_id") as obj for json path, include_null_values, without_array_wrapper)) as "author" from "posts" as "posts_2" where "posts_2"."user_id" = "users"."id") as agg for json path, include_null_values), '[]')) as "posts" from "users"`
+      );
+    });
+  });
+
+  describe("strict mode", () => {
+    test("should wrap single rows with the parent key", () => {
+      const relations = createMssqlRelationsBuilder<Database>({
+        strict: true,
+      });
+      const postRelations = relations("posts", ({ belongsTo }) => ({
+        author: belongsTo("author", {
+          target: "users",
+          column: "posts.user_id",
+          reference: "users.id",
+        }),
+      }));
+
+      const sql = compile(
+        mssql
+          .selectFrom("posts")
+          .select(postRelations.author((qb) => qb.select("name")))
+      );
+
+      assert.strictEqual(
+        sql,
+        `select json_array(json_array("posts"."user_id" null on null), json_query(coalesce((select "agg"."name" as "name" from (select top(2) "name" from "users" as "users_1" where "users_1"."id" = "posts"."user_id") as agg for json path, include_null_values), '[]')) null on null) as "author" from "posts"`
+      );
+    });
+  });
+
+  describe("createQuery", () => {
+    test("should page root queries with top", async () => {
+      const queries: string[] = [];
+      const logged = new Kysely<Database>({
+        dialect: {
+          createAdapter: () => new MssqlAdapter(),
+          createDriver: () => new DummyDriver(),
+          createIntrospector: (db) => new MssqlIntrospector(db),
+          createQueryCompiler: () => new MssqlQueryCompiler(),
+        },
+        log: (event) => {
+          queries.push(event.query.sql);
+        },
+      });
+      const query = createMssqlQuery(logged, { users: userRelations });
+
+      await query.users.findFirst({ columns: { name: true } });
+
+      assert.deepStrictEqual(queries, [`select top(1) "name" from "users"`]);
+    });
+  });
+});
+
+describe("detectAdapter", () => {
+  test("should pick the adapter of the dialect", () => {
+    const postgres = new Kysely<Database>({
+      dialect: {
+        createAdapter: () => new PostgresAdapter(),
+        createDriver: () => new DummyDriver(),
+        createIntrospector: (db) => new PostgresIntrospector(db),
+        createQueryCompiler: () => new PostgresQueryCompiler(),
+      },
+    });
+
+    assert.strictEqual(detectAdapter(postgres), postgresAdapter);
+    assert.strictEqual(detectAdapter(mysql), mysqlAdapter);
+    assert.strictEqual(detectAdapter(sqlite), sqliteAdapter);
+    assert.strictEqual(detectAdapter(mssql), mssqlAdapter);
+  });
+
+  test("should throw for dialects without an adapter", () => {
+    class CustomAdapter extends DialectAdapterBase {
+      async acquireMigrationLock() {}
+      async releaseMigrationLock() {}
+    }
+    const custom = new Kysely<Database>({
+      dialect: {
+        createAdapter: () => new CustomAdapter(),
+        createDriver: () => new DummyDriver(),
+        createIntrospector: (db) => new MysqlIntrospector(db),
+        createQueryCompiler: () => new MysqlQueryCompiler(),
+      },
+    });
+
+    assert.throws(
+      () => detectAdapter(custom),
+      /No relations adapter for CustomAdapter/
+    );
+  });
+});
@@ -0,0 +1,264 @@
+import { test, describe, before, after } from "node:test";
+import assert from "node:assert";
+import { PGlite } from "@electric-sql/pglite";
+import { Kysely, SqliteDialect } from "kysely";
+import { PGliteDialect } from "kysely-pglite-dialect";
+import {
+  generateRelations,
+  introspectSchema,
+} from "../src/generator/relations-generator.js";
+import { createSqliteDatabase } from "./sqlite-database.js";
+
+// The same schema in both databases, so both generate the same relations
+const schema = `
+  CREATE TABLE users (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL
+  );
+
+  CREATE TABLE profiles (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER UNIQUE REFERENCES users (id),
+    bio TEXT
+  );
+
+  CREATE TABLE posts (
+    id INTEGER PRIMARY KEY,
+    author_id INTEGER REFERENCES users (id),
+    editor_id INTEGER REFERENCES users (id),
+    title TEXT NOT NULL
+  );
+
+  CREATE TABLE tags (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL
+  );
+
+  CREATE TABLE post_tags (
+    post_id INTEGER NOT NULL REFERENCES posts (id),
+    tag_id INTEGER NOT NULL REFERENCES tags (id),
+    PRIMARY KEY (post_id, tag_id)
+  );
+
+  CREATE TABLE comments (
+    id INTEGER PRIMARY KEY,
+    parent_id INTEGER REFERENCES comments (id),
+    body TEXT NOT NULL
+  );
+
+  CREATE TABLE accounts (
+    tenant_id INTEGER NOT NULL,
+    id INTEGER NOT NULL,
+    PRIMARY KEY (tenant_id, id)
+  );
+
+  CREATE TABLE documents (
+    id INTEGER PRIMARY KEY,
+    tenant_id INTEGER NOT NULL,
+    account_id INTEGER NOT NULL,
+    FOREIGN KEY (tenant_id, account_id) REFERENCES accounts (tenant_id, id)
+  );
+`;
+
+const expected = `// Generated from the database's foreign keys.
+import { createRelationsBuilder } from "kysely-relations/postgres";
+import type { DB } from "kysely-codegen";
+
+const relations = createRelationsBuilder<DB>();
+
+export const accountsRelations = relations("accounts", ({ hasMany }) => ({
+  documents: hasMany("documents", {
+    target: "documents",
+    column: ["accounts.tenant_id", "accounts.id"],
+    reference: ["documents.tenant_id", "documents.account_id"],
+  }),
+}));
+
+export const commentsRelations = relations("comments", ({ belongsTo, hasMany }) => ({
+  comments: hasMany("comments", {
+    target: "comments",
+    column: "comments.id",
+    reference: "comments.parent_id",
+  }),
+  parent: belongsTo("parent", {
+    target: "comments",
+    column: "comments.parent_id",
+    reference: "comments.id",
+  }),
+}));
+
+export const documentsRelations = relations("documents", ({ belongsTo }) => ({
+  account: belongsTo("account", {
+    target: "accounts",
+    column: ["documents.tenant_id", "documents.account_id"],
+    reference: ["accounts.tenant_id", "accounts.id"],
+  }),
+}));
+
+export const postTagsRelations = relations("post_tags", ({ belongsTo }) => ({
+  post: belongsTo("post", {
+    target: "posts",
+    column: "post_tags.post_id",
+    reference: "posts.id",
+  }),
+  tag: belongsTo("tag", {
+    target: "tags",
+    column: "post_tags.tag_id",
+    reference: "tags.id",
+  }),
+}));
+
+export const postsRelations = relations("posts", ({ belongsTo, hasMany, hasManyThrough }) => ({
+  author: belongsTo("author", {
+    target: "users",
+    column: "posts.author_id",
+    reference: "users.id",
+  }),
+  editor: belongsTo("editor", {
+    target: "users",
+    column: "posts.editor_id",
+    reference: "users.id",
+  }),
+  postTags: hasMany("postTags", {
+    target: "post_tags",
+    column: "posts.id",
+    reference: "post_tags.post_id",
+  }),
+  tags: hasManyThrough("tags", {
+    target: "tags",
+    column: "posts.id",
+    reference: "tags.id",
+    through: "post_tags",
+    throughColumn: "post_tags.post_id",
+    throughReference: "post_tags.tag_id",
+  }),
+}));
+
+export const profilesRelations = relations("profiles", ({ belongsTo }) => ({
+  user: belongsTo("user", {
+    target: "users",
+    column: "profiles.user_id",
+    reference: "users.id",
+  }),
+}));
+
+export const tagsRelations = relations("tags", ({ hasMany, hasManyThrough }) => ({
+  postTags: hasMany("postTags", {
+    target: "post_tags",
+    column: "tags.id",
+    reference: "post_tags.tag_id",
+  }),
+  posts: hasManyThrough("posts", {
+    target: "posts",
+    column: "tags.id",
+    reference: "posts.id",
+    through: "post_tags",
+    throughColumn: "post_tags.tag_id",
+    throughReference: "post_tags.post_id",
+  }),
+}));
+
+export const usersRelations = relations("users", ({ hasMany, hasOne }) => ({
+  postsAsAuthor: hasMany("postsAsAuthor", {
+    target: "posts",
+    column: "users.id",
+    reference: "posts.author_id",
+  }),
+  postsAsEditor: hasMany("postsAsEditor", {
+    target: "posts",
+    column: "users.id",
+    reference: "posts.editor_id",
+  }),
+  profile: hasOne("profile", {
+    target: "profiles",
+    column: "users.id",
+    reference: "profiles.user_id",
+  }),
+}));
+
+export const relationSchema = {
+  accounts: accountsRelations,
+  comments: commentsRelations,
+  documents: documentsRelations,
+  post_tags: postTagsRelations,
+  posts: postsRelations,
+  profiles: profilesRelations,
+  tags: tagsRelations,
+  users: usersRelations,
+};
+`;
+
+describe("Relations generator", () => {
+  describe("postgres", () => {
+    let pglite: PGlite;
+    let db: Kysely<unknown>;
+
+    before(async () => {
+      pglite = new PGlite();
+      await pglite.exec(schema);
+      db = new Kysely({ dialect: new PGliteDialect(pglite) });
+    });
+
+    after(async () => {
+      await pglite.close();
+    });
+
+    test("should introspect composite foreign keys", async () => {
+      const { foreignKeys } = await introspectSchema(db, {
+        dialect: "postgres",
+      });
+
+      assert.deepStrictEqual(
+        foreignKeys.find((key) => key.table === "documents"),
+        {
+          table: "documents",
+          columns: ["tenant_id", "account_id"],
+          referencedTable: "accounts",
+          referencedColumns: ["tenant_id", "id"],
+        }
+      );
+    });
+
+    test("should generate relations from foreign keys", async () => {
+      const output = await generateRelations(db, { dialect: "postgres" });
+
+      assert.strictEqual(output, expected);
+    });
+  });
+
+  describe("sqlite", () => {
+    let db: Kysely<unknown>;
+
+    before(async () => {
+      const database = await createSqliteDatabase();
+
+      database.prepare("PRAGMA foreign_keys = ON").run([]);
+
+      for (const statement of schema.split(";")) {
+        if (statement.trim()) {
+          database.prepare(statement).run([]);
+        }
+      }
+
+      db = new Kysely({ dialect: new SqliteDialect({ database }) });
+    });
+
+    after(async () => {
+      await db.destroy();
+    });
+
+    test("should generate the same relations as postgres", async () => {
+      const output = await generateRelations(db, {
+        dialect: "sqlite",
+        typesImport: "./db",
+      });
+
+      assert.strictEqual(
+        output,
+        expected
+          .replace("kysely-relations/postgres", "kysely-relations/sqlite")
+          .replace('from "kysely-codegen"', 'from "./db"')
+      );
+    });
+  });
+});
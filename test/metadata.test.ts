@@ -0,0 +1,236 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { createRelationsBuilder } from "../src/postgres/relations-builder.js";
+
+interface Database {
+  users: { id: number; name: string };
+  profiles: { id: number; user_id: number; bio: string | null };
+  posts: { id: number; user_id: number | null; title: string };
+  tags: { id: number; name: string };
+  post_tags: { post_id: number; tag_id: number; position: number };
+  notes: {
+    id: number;
+    notable_type: string;
+    notable_id: number;
+    body: string;
+  };
+}
+
+describe("Relation metadata", () => {
+  const relations = createRelationsBuilder<Database>({
+    scopes: { posts: (qb) => qb.where("title", "!=", "") },
+  });
+  const postRelations = relations(
+    "posts",
+    ({ belongsTo, hasManyThrough, morphMany }) => ({
+      author: belongsTo("author", {
+        target: "users",
+        column: "posts.user_id",
+        reference: "users.id",
+      }),
+      tags: hasManyThrough("tags", {
+        target: "tags",
+        column: "posts.id",
+        reference: "tags.id",
+        through: "post_tags",
+        throughColumn: "post_tags.post_id",
+        throughReference: "post_tags.tag_id",
+        pivot: ["position"],
+      }),
+      notes: morphMany("notes", {
+        target: "notes",
+        column: "posts.id",
+        reference: "notes.notable_id",
+        typeColumn: "notes.notable_type",
+        type: "post",
+      }),
+    })
+  );
+  const userRelations = relations(
+    "users",
+    ({ hasMany, hasOneNotNull, hasManyThrough }) => {
+      const posts = hasMany("posts", {
+        target: "posts",
+        column: "users.id",
+        reference: "posts.user_id",
+      });
+
+      return {
+        posts,
+        profile: hasOneNotNull("profile", {
+          target: "profiles",
+          column: "users.id",
+          reference: "profiles.user_id",
+        }),
+        tags: hasManyThrough("tags", [posts, postRelations.tags]),
+      };
+    }
+  );
+  relations("notes", ({ morphTo }) => ({
+    notable: morphTo("notable", {
+      typeColumn: "notes.notable_type",
+      column: "notes.notable_id",
+      targets: { post: "posts.id", user: "users.id" },
+    }),
+  }));
+
+  test("should describe every relation of a table by name", () => {
+    assert.deepStrictEqual(relations.describe("posts"), {
+      author: {
+        name: "author",
+        kind: "belongsTo",
+        table: "posts",
+        cardinality: "one",
+        nullable: null,
+        target: "users",
+        column: ["posts.user_id"],
+        reference: ["users.id"],
+      },
+      tags: {
+        name: "tags",
+        kind: "hasManyThrough",
+        table: "posts",
+        cardinality: "many",
+        nullable: false,
+        target: "tags",
+        column: ["posts.id"],
+        reference: ["tags.id"],
+        through: {
+          table: "post_tags",
+          column: ["post_tags.post_id"],
+          reference: ["post_tags.tag_id"],
+          pivot: ["position"],
+        },
+      },
+      notes: {
+        name: "notes",
+        kind: "morphMany",
+        table: "posts",
+        cardinality: "many",
+        nullable: false,
+        target: "notes",
+        column: ["posts.id"],
+        reference: ["notes.notable_id"],
+        typeColumn: "notes.notable_type",
+        type: "post",
+      },
+    });
+    assert.deepStrictEqual(relations.describe("tags"), {});
+  });
+
+  test("should leave the nullability of belongsTo relations unknown", () => {
+    const relations = createRelationsBuilder<Database>();
+    const profileRelations = relations(
+      "profiles",
+      ({ belongsTo, belongsToNotNull }) => ({
+        // profiles.user_id is not null, but the relation can't tell.
+        user: belongsTo("user", {
+          target: "users",
+          column: "profiles.user_id",
+          reference: "users.id",
+        }),
+        owner: belongsToNotNull("owner", {
+          target: "users",
+          column: "profiles.user_id",
+          reference: "users.id",
+        }),
+      })
+    );
+
+    assert.strictEqual(profileRelations.user.metadata.nullable, null);
+    assert.strictEqual(profileRelations.user.metadata.cardinality, "one");
+    assert.strictEqual(profileRelations.owner.metadata.nullable, false);
+    assert.strictEqual(
+      profileRelations.owner.metadata.cardinality,
+      "oneNotNull"
+    );
+  });
+
+  test("should describe relation chains by their relations", () => {
+    const { tags } = relations.describe("users");
+
+    assert.strictEqual(tags.kind, "hasManyThrough");
+    assert.strictEqual(tags.target, "tags");
+    assert.deepStrictEqual(tags.column, ["users.id"]);
+    assert.deepStrictEqual(
+      "chain" in tags && tags.chain?.map(({ kind, target }) => [kind, target]),
+      [
+        ["hasMany", "posts"],
+        ["hasManyThrough", "tags"],
+      ]
+    );
+  });
+
+  test("should keep the metadata on the relations", () => {
+    assert.strictEqual(
+      userRelations.profile.metadata,
+      relations.describe("users").profile
+    );
+    assert.strictEqual(
+      postRelations.author.unscoped.metadata,
+      postRelations.author.metadata
+    );
+  });
+
+  test("should describe every table", () => {
+    const tables = relations.describe();
+
+    assert.deepStrictEqual(Object.keys(tables), ["posts", "users", "notes"]);
+    assert.deepStrictEqual(tables.notes?.notable, {
+      name: "notable",
+      kind: "morphTo",
+      table: "notes",
+      cardinality: "one",
+      nullable: true,
+      column: ["notes.notable_id"],
+      typeColumn: "notes.notable_type",
+      targets: {
+        post: { target: "posts", reference: ["posts.id"] },
+        user: { target: "users", reference: ["users.id"] },
+      },
+    });
+    assert.deepStrictEqual(
+      JSON.parse(JSON.stringify(tables.posts)),
+      relations.describe("posts")
+    );
+  });
+
+  test("should merge relations of a table defined in several calls", () => {
+    const relations = createRelationsBuilder<Database>();
+    relations("users", ({ hasMany }) => ({
+      posts: hasMany("posts", {
+        target: "posts",
+        column: "users.id",
+        reference: "posts.user_id",
+      }),
+    }));
+    relations("users", ({ hasOne }) => ({
+      profile: hasOne("profile", {
+        target: "profiles",
+        column: "users.id",
+        reference: "profiles.user_id",
+      }),
+    }));
+
+    assert.deepStrictEqual(Object.keys(relations.describe("users")), [
+      "posts",
+      "profile",
+    ]);
+  });
+
+  test("should print a mermaid diagram", () => {
+    assert.strictEqual(
+      relations.toMermaid(),
+      `erDiagram
+  posts }o--o| users : "author"
+  posts }o--o{ tags : "tags"
+  posts ||--o{ notes : "notes"
+  users ||--o{ posts : "posts"
+  users ||--|| profiles : "profile"
+  users }o--o{ tags : "tags"
+  notes }o--o| posts : "notable"
+  notes }o--o| users : "notable"
+`
+    );
+  });
+});
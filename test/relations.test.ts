@@ -1,9 +1,14 @@
 import { test, describe, before, after } from "node:test";
 import assert from "node:assert";
-import { PGlite } from "@electric-sql/pglite";
-import { ColumnType, Kysely } from "kysely";
-import { PGliteDialect } from "kysely-pglite-dialect";
-import { createRelationsBuilder } from "../src/postgres/relations-builder.js";
+import { ColumnType, Kysely, sql, type SqlBool } from "kysely";
+import {
+  createLoaders,
+  createQuery,
+  createRelationsBuilder as createAdapterRelationsBuilder,
+  type RelationsBuilderOptions,
+} from "../src/index.js";
+import { createRelationsBuilder as createPostgresRelationsBuilder } from "../src/postgres/relations-builder.js";
+import { type TestConnection, testDatabases } from "./test-databases.js";
 
 // Database schema type
 interface Database {
@@ -20,6 +25,8 @@ interface Database {
     id: ColumnType<number, number | undefined, number | undefined>;
     user_id: number | null;
     title: string;
+    likes: ColumnType<number, number | undefined, number | undefined>;
+    created_at: ColumnType<Date, Date | undefined, Date | undefined>;
   };
   tags: {
     id: ColumnType<number, number | undefined, number | undefined>;
@@ -30,442 +37,3545 @@ interface Database {
     post_id: number | null;
     tag_id: number | null;
   };
+  comments: {
+    id: ColumnType<number, number | undefined, number | undefined>;
+    parent_id: number | null;
+    body: string;
+  };
+  accounts: {
+    tenant_id: number;
+    id: number;
+    name: string;
+  };
+  documents: {
+    tenant_id: number;
+    id: number;
+    account_id: number;
+    title: string;
+  };
+  notes: {
+    id: ColumnType<number, number | undefined, number | undefined>;
+    notable_type: string;
+    notable_id: number;
+    body: string;
+  };
+  tasks: {
+    id: ColumnType<number, number | undefined, number | undefined>;
+    user_id: number;
+    title: string;
+    deleted_at: Date | null;
+  };
+  task_tags: {
+    id: ColumnType<number, number | undefined, number | undefined>;
+    task_id: number;
+    tag_id: number;
+    deleted_at: Date | null;
+  };
+  roles: {
+    id: ColumnType<number, number | undefined, number | undefined>;
+    name: string;
+  };
+  user_roles: {
+    id: ColumnType<number, number | undefined, number | undefined>;
+    user_id: number;
+    role_id: number;
+    granted_by: string;
+    granted_at: ColumnType<Date, Date | undefined, Date | undefined>;
+  };
+  // Created in the postgres tests of schema-qualified tables only
+  "app.users": {
+    id: ColumnType<number, number | undefined, number | undefined>;
+    name: string;
+  };
+  "app.posts": {
+    id: ColumnType<number, number | undefined, number | undefined>;
+    user_id: number;
+    title: string;
+  };
 }
 
-let db: Kysely<Database>;
-let pglite: PGlite;
+const schema = `
+  CREATE TABLE users (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL
+  );
+
+  CREATE TABLE profiles (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER,
+    bio TEXT
+  );
+
+  CREATE TABLE posts (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER,
+    title TEXT NOT NULL,
+    likes INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE tags (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL
+  );
+
+  CREATE TABLE post_tags (
+    id SERIAL PRIMARY KEY,
+    post_id INTEGER,
+    tag_id INTEGER
+  );
+
+  CREATE TABLE comments (
+    id SERIAL PRIMARY KEY,
+    parent_id INTEGER,
+    body TEXT NOT NULL
+  );
+
+  CREATE TABLE accounts (
+    tenant_id INTEGER NOT NULL,
+    id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    PRIMARY KEY (tenant_id, id)
+  );
+
+  CREATE TABLE documents (
+    tenant_id INTEGER NOT NULL,
+    id INTEGER NOT NULL,
+    account_id INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    PRIMARY KEY (tenant_id, id)
+  );
+
+  CREATE TABLE notes (
+    id SERIAL PRIMARY KEY,
+    notable_type TEXT NOT NULL,
+    notable_id INTEGER NOT NULL,
+    body TEXT NOT NULL
+  );
+
+  CREATE TABLE tasks (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    deleted_at TIMESTAMPTZ
+  );
+
+  CREATE TABLE task_tags (
+    id SERIAL PRIMARY KEY,
+    task_id INTEGER NOT NULL,
+    tag_id INTEGER NOT NULL,
+    deleted_at TIMESTAMPTZ
+  );
+
+  CREATE TABLE roles (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL
+  );
+
+  CREATE TABLE user_roles (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    role_id INTEGER NOT NULL,
+    granted_by TEXT NOT NULL,
+    granted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+`;
+
+for (const database of testDatabases) {
+  describe(`Relations Builder (${database.name})`, () => {
+    let db: Kysely<Database>;
+    let connection: TestConnection;
+    const createRelationsBuilder = <DB>(
+      options: RelationsBuilderOptions<DB> = {}
+    ) =>
+      createAdapterRelationsBuilder<DB>({
+        ...options,
+        adapter: database.adapter,
+      });
+
+    // Dialects that build json with json_object need explicit selections.
+    const selectAllTest = {
+      skip:
+        !database.selectAllInRelations &&
+        "selectAll() is not supported in relation subqueries",
+    };
+
+    before(async () => {
+      connection = await database.connect(schema);
+      db = new Kysely<Database>({
+        dialect: connection.createDialect(),
+        plugins: database.jsonAsText ? [createRelationsBuilder().plugin] : [],
+      });
+    });
+
+    after(async () => {
+      await connection.close();
+    });
+
+    describe("hasOne", () => {
+      test("should return null when no related record exists", async () => {
+        // Insert a user without a profile
+        await db.insertInto("users").values({ name: "Alice" }).execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasOne }) => ({
+          profile: hasOne("profile", {
+            target: "profiles",
+            column: "users.id",
+            reference: "profiles.user_id",
+          })((qb) => qb.select(["id", "user_id", "bio"])),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .select((eb) => ["id", "name", userRelations.profile(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.strictEqual(result[0].name, "Alice");
+        assert.strictEqual(result[0].profile, null);
+        assert.ok(Number.isInteger(result[0].id));
+        assert.deepStrictEqual(result[0], {
+          id: result[0].id,
+          name: "Alice",
+          profile: null,
+        });
+      });
+
+      test("should return related record when it exists", async () => {
+        // Insert user and profile
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Bob" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("profiles")
+          .values({ user_id: userId, bio: "Bob's bio" })
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasOne }) => ({
+          profile: hasOne("profile", {
+            target: "profiles",
+            column: "users.id",
+            reference: "profiles.user_id",
+          })((qb) => qb.select(["id", "user_id", "bio"])),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select((eb) => ["id", "name", userRelations.profile(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.strictEqual(result[0].name, "Bob");
+        assert.ok(result[0].profile);
+        assert.strictEqual(result[0].profile?.user_id, userId);
+        assert.strictEqual(result[0].profile?.bio, "Bob's bio");
+        assert.ok(Number.isInteger(result[0].profile?.id ?? 0));
+        assert.deepStrictEqual(result[0], {
+          id: userId,
+          name: "Bob",
+          profile: {
+            id: result[0].profile?.id,
+            user_id: userId,
+            bio: "Bob's bio",
+          },
+        });
+      });
+
+      test("should select all columns", selectAllTest, async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Selected" })
+          .returning("id")
+          .execute();
+        const [{ id: profileId }] = await db
+          .insertInto("profiles")
+          .values({ user_id: userId, bio: "Selected bio" })
+          .returning("id")
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasOne }) => ({
+          profile: hasOne("profile", {
+            target: "profiles",
+            column: "users.id",
+            reference: "profiles.user_id",
+          }),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select(userRelations.profile((qb) => qb.selectAll()))
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          { profile: { id: profileId, user_id: userId, bio: "Selected bio" } },
+        ]);
+      });
+
+      test("should work with custom select", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Charlie" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("profiles")
+          .values({ user_id: userId, bio: "Charlie's bio" })
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasOne }) => ({
+          profile: hasOne("profile", {
+            target: "profiles",
+            column: "users.id",
+            reference: "profiles.user_id",
+          })((qb) => qb.select("bio")),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select((eb) => ["id", userRelations.profile(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.ok(result[0].profile);
+        assert.strictEqual(result[0].profile.bio, "Charlie's bio");
+        assert.deepStrictEqual(result[0].profile, { bio: "Charlie's bio" });
+      });
+    });
+
+    describe("hasOneNotNull", () => {
+      test("should return related record", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "David" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("profiles")
+          .values({ user_id: userId, bio: "David's bio" })
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasOneNotNull }) => ({
+          profile: hasOneNotNull("profile", {
+            target: "profiles",
+            column: "users.id",
+            reference: "profiles.user_id",
+          })((qb) => qb.select(["id", "user_id", "bio"])),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select((eb) => ["id", "name", userRelations.profile(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.ok(result[0].profile);
+        assert.strictEqual(result[0].profile.bio, "David's bio");
+        assert.strictEqual(result[0].profile.user_id, userId);
+        assert.ok(Number.isInteger(result[0].profile.id));
+        assert.deepStrictEqual(result[0], {
+          id: userId,
+          name: "David",
+          profile: {
+            id: result[0].profile.id,
+            user_id: userId,
+            bio: "David's bio",
+          },
+        });
+      });
+    });
+
+    describe("belongsTo", () => {
+      test("should return the owning record", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Owner" })
+          .returning("id")
+          .execute();
+
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: userId, title: "Owned Post" })
+          .returning("id")
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const postRelations = relations("posts", ({ belongsTo }) => ({
+          author: belongsTo("author", {
+            target: "users",
+            column: "posts.user_id",
+            reference: "users.id",
+          })((qb) => qb.select(["id", "name"])),
+        }));
+
+        const result = await db
+          .selectFrom("posts")
+          .where("id", "=", postId)
+          .select((eb) => ["id", postRelations.author(eb)])
+          .execute();
+
+        // posts.user_id is nullable, so the author must be typed as nullable
+        const authorIsNullable: null extends (typeof result)[0]["author"]
+          ? true
+          : false = true;
+
+        assert.ok(authorIsNullable);
+        assert.strictEqual(result.length, 1);
+        assert.deepStrictEqual(result[0].author, { id: userId, name: "Owner" });
+      });
+
+      test("should return null when the foreign key is null", async () => {
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: null, title: "Orphan Post" })
+          .returning("id")
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const postRelations = relations("posts", ({ belongsTo }) => ({
+          author: belongsTo("author", {
+            target: "users",
+            column: "posts.user_id",
+            reference: "users.id",
+          })((qb) => qb.select("name")),
+        }));
+
+        const result = await db
+          .selectFrom("posts")
+          .where("id", "=", postId)
+          .select((eb) => ["id", postRelations.author(eb)])
+          .execute();
+
+        assert.deepStrictEqual(result[0], { id: postId, author: null });
+      });
+    });
+
+    describe("belongsToNotNull", () => {
+      test("should return the owning record", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Required Owner" })
+          .returning("id")
+          .execute();
+
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: userId, title: "Required Post" })
+          .returning("id")
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const postRelations = relations("posts", ({ belongsToNotNull }) => ({
+          author: belongsToNotNull("author", {
+            target: "users",
+            column: "posts.user_id",
+            reference: "users.id",
+          })((qb) => qb.select("name")),
+        }));
+
+        const result = await db
+          .selectFrom("posts")
+          .where("id", "=", postId)
+          .select((eb) => ["id", postRelations.author(eb)])
+          .execute();
+
+        assert.strictEqual(result[0].author.name, "Required Owner");
+      });
+    });
+
+    describe("hasMany", () => {
+      test("should return empty array when no related records exist", async () => {
+        await db.insertInto("users").values({ name: "Eve" }).execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasMany }) => ({
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          })((qb) =>
+            qb.select(["id", "user_id", "title", "likes", "created_at"])
+          ),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("name", "=", "Eve")
+          .select((eb) => ["id", "name", userRelations.posts(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.strictEqual(result[0].name, "Eve");
+        assert.ok(Array.isArray(result[0].posts));
+        assert.strictEqual(result[0].posts.length, 0);
+        assert.deepStrictEqual(result[0], {
+          id: result[0].id,
+          name: "Eve",
+          posts: [],
+        });
+      });
+
+      test("should return array of related records", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Frank" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Post 1" },
+            { user_id: userId, title: "Post 2" },
+            { user_id: userId, title: "Post 3" },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasMany }) => ({
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          })((qb) =>
+            qb.select(["id", "user_id", "title", "likes", "created_at"])
+          ),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select((eb) => ["id", "name", userRelations.posts(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.strictEqual(result[0].name, "Frank");
+        assert.ok(Array.isArray(result[0].posts));
+        assert.strictEqual(result[0].posts.length, 3);
+        const titles = result[0].posts.map((p) => p?.title);
+        assert.deepStrictEqual(titles, ["Post 1", "Post 2", "Post 3"]);
+        assert.ok(result[0].posts.every((p) => p?.user_id === userId));
+      });
+
+      test("should work with query customization", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Grace" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "America First" },
+            { user_id: userId, title: "America Second" },
+            { user_id: userId, title: "Other Post" },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasMany }) => ({
+          americanPosts: hasMany(
+            "americanPosts",
+            {
+              target: "posts",
+              column: "users.id",
+              reference: "posts.user_id",
+            },
+            (qb) => qb.where("title", "like", "America%")
+          )((qb) =>
+            qb.select(["id", "user_id", "title", "likes", "created_at"])
+          ),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select((eb) => ["id", "name", userRelations.americanPosts(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.ok(Array.isArray(result[0].americanPosts));
+        assert.strictEqual(result[0].americanPosts.length, 2);
+        assert.ok(
+          result[0].americanPosts.every((post) =>
+            post.title.startsWith("America")
+          )
+        );
+        assert.deepStrictEqual(
+          result[0].americanPosts.map((p) => p.title).sort(),
+          ["America First", "America Second"]
+        );
+      });
+
+      test("should work with custom select", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Henry" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Post 1" },
+            { user_id: userId, title: "Post 2" },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasMany }) => ({
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          })((qb) => qb.select("title")),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select((eb) => ["id", userRelations.posts(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.ok(Array.isArray(result[0].posts));
+        assert.strictEqual(result[0].posts.length, 2);
+        assert.deepStrictEqual(result[0].posts, [
+          { title: "Post 1" },
+          { title: "Post 2" },
+        ]);
+      });
+    });
+
+    describe("hasManyThrough", () => {
+      test("should return empty array when no related records exist", async () => {
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: null, title: "Test Post" })
+          .returning("id")
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const postRelations = relations("posts", ({ hasManyThrough }) => ({
+          tags: hasManyThrough("tags", {
+            target: "tags",
+            column: "posts.id",
+            reference: "tags.id",
+            through: "post_tags",
+            throughColumn: "post_tags.post_id",
+            throughReference: "post_tags.tag_id",
+          })((qb) => qb.select(["id", "name"])),
+        }));
+
+        const result = await db
+          .selectFrom("posts")
+          .where("id", "=", postId)
+          .select((eb) => ["id", "title", postRelations.tags(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.ok(Array.isArray(result[0].tags));
+        assert.strictEqual(result[0].tags.length, 0);
+        assert.deepStrictEqual(result[0], {
+          id: postId,
+          title: "Test Post",
+          tags: [],
+        });
+      });
+
+      test("should return array of related records through junction table", async () => {
+        // Create tags
+        const [{ id: tag1Id }] = await db
+          .insertInto("tags")
+          .values({ name: "JavaScript" })
+          .returning("id")
+          .execute();
+        const [{ id: tag2Id }] = await db
+          .insertInto("tags")
+          .values({ name: "TypeScript" })
+          .returning("id")
+          .execute();
+        const [{ id: tag3Id }] = await db
+          .insertInto("tags")
+          .values({ name: "Python" })
+          .returning("id")
+          .execute();
+
+        // Create post
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: null, title: "My Post" })
+          .returning("id")
+          .execute();
+
+        // Link tags to post through junction table
+        await db
+          .insertInto("post_tags")
+          .values([
+            { post_id: postId, tag_id: tag1Id },
+            { post_id: postId, tag_id: tag2Id },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const postRelations = relations("posts", ({ hasManyThrough }) => ({
+          tags: hasManyThrough("tags", {
+            target: "tags",
+            column: "posts.id",
+            reference: "tags.id",
+            through: "post_tags",
+            throughColumn: "post_tags.post_id",
+            throughReference: "post_tags.tag_id",
+          })((qb) => qb.select(["id", "name"])),
+        }));
+
+        const result = await db
+          .selectFrom("posts")
+          .where("id", "=", postId)
+          .select((eb) => ["id", "title", postRelations.tags(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.ok(Array.isArray(result[0].tags));
+        assert.strictEqual(result[0].tags.length, 2);
+        const tagNames = result[0].tags.map((tag) => tag.name).sort();
+        assert.deepStrictEqual(tagNames, ["JavaScript", "TypeScript"]);
+        const tagIds = result[0].tags.map((tag) => tag.id).sort();
+        assert.deepStrictEqual(tagIds, [tag1Id, tag2Id].sort());
+      });
+
+      test("should work with query customization", async () => {
+        const [{ id: tag1Id }] = await db
+          .insertInto("tags")
+          .values({ name: "JavaScript" })
+          .returning("id")
+          .execute();
+        const [{ id: tag2Id }] = await db
+          .insertInto("tags")
+          .values({ name: "TypeScript" })
+          .returning("id")
+          .execute();
+
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: null, title: "Another Post" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("post_tags")
+          .values([
+            { post_id: postId, tag_id: tag1Id },
+            { post_id: postId, tag_id: tag2Id },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const postRelations = relations("posts", ({ hasManyThrough }) => ({
+          jsTags: hasManyThrough(
+            "jsTags",
+            {
+              target: "tags",
+              column: "posts.id",
+              reference: "tags.id",
+              through: "post_tags",
+              throughColumn: "post_tags.post_id",
+              throughReference: "post_tags.tag_id",
+            },
+            (qb) => qb.where("name", "=", "JavaScript")
+          )((qb) => qb.select(["id", "name"])),
+        }));
+
+        const result = await db
+          .selectFrom("posts")
+          .where("id", "=", postId)
+          .select((eb) => ["id", "title", postRelations.jsTags(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.ok(Array.isArray(result[0].jsTags));
+        assert.strictEqual(result[0].jsTags.length, 1);
+        assert.strictEqual(result[0].jsTags[0]?.name, "JavaScript");
+        assert.deepStrictEqual(result[0].jsTags, [
+          { id: tag1Id, name: "JavaScript" },
+        ]);
+      });
+    });
+
+    describe("Multiple relations", () => {
+      test("should handle multiple relations on same query", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Iris" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("profiles")
+          .values({ user_id: userId, bio: "Iris's bio" })
+          .execute();
+
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Post 1" },
+            { user_id: userId, title: "Post 2" },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasOne, hasMany }) => ({
+          profile: hasOne("profile", {
+            target: "profiles",
+            column: "users.id",
+            reference: "profiles.user_id",
+          })((qb) => qb.select(["id", "user_id", "bio"])),
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          })((qb) =>
+            qb.select(["id", "user_id", "title", "likes", "created_at"])
+          ),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select((eb) => [
+            "id",
+            "name",
+            userRelations.profile(eb),
+            userRelations.posts(eb),
+          ])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.ok(result[0].profile);
+        assert.strictEqual(result[0].profile?.bio, "Iris's bio");
+        assert.ok(Array.isArray(result[0].posts));
+        assert.strictEqual(result[0].posts.length, 2);
+        assert.deepStrictEqual(
+          result[0].posts.map((p) => ({
+            title: p.title,
+            user_id: p.user_id,
+          })),
+          [
+            { title: "Post 1", user_id: userId },
+            { title: "Post 2", user_id: userId },
+          ]
+        );
+      });
+    });
+
+    describe("Nested relations", () => {
+      test("should return posts with nested tags", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "NestedUser" })
+          .returning("id")
+          .execute();
+
+        const [{ id: tag1Id }] = await db
+          .insertInto("tags")
+          .values({ name: "JS" })
+          .returning("id")
+          .execute();
+        const [{ id: tag2Id }] = await db
+          .insertInto("tags")
+          .values({ name: "TS" })
+          .returning("id")
+          .execute();
+
+        const [{ id: post1Id }] = await db
+          .insertInto("posts")
+          .values({ user_id: userId, title: "Nested Post 1" })
+          .returning("id")
+          .execute();
+        const [{ id: post2Id }] = await db
+          .insertInto("posts")
+          .values({ user_id: userId, title: "Nested Post 2" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("post_tags")
+          .values([
+            { post_id: post1Id, tag_id: tag1Id },
+            { post_id: post1Id, tag_id: tag2Id },
+            { post_id: post2Id, tag_id: tag1Id },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const postRelations = relations("posts", ({ hasManyThrough }) => ({
+          tags: hasManyThrough("tags", {
+            target: "tags",
+            column: "posts.id",
+            reference: "tags.id",
+            through: "post_tags",
+            throughColumn: "post_tags.post_id",
+            throughReference: "post_tags.tag_id",
+          })((qb) => qb.select(["id", "name"])),
+        }));
+
+        const userRelations = relations("users", ({ hasMany }) => ({
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          })((qb) =>
+            qb.select((eb) => ["id", "title", postRelations.tags(eb)])
+          ),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select((eb) => ["id", "name", userRelations.posts(eb)])
+          .execute();
+
+        assert.strictEqual(result.length, 1);
+        assert.strictEqual(result[0].id, userId);
+        assert.strictEqual(result[0].name, "NestedUser");
+        assert.ok(Array.isArray(result[0].posts));
+        assert.strictEqual(result[0].posts.length, 2);
+
+        const sortedPosts = [...result[0].posts].sort((a, b) =>
+          (a?.title ?? "").localeCompare(b?.title ?? "")
+        );
+
+        const [firstPost, secondPost] = sortedPosts;
+        assert.deepStrictEqual(firstPost?.tags.map((t) => t.name).sort(), [
+          "JS",
+          "TS",
+        ]);
+        assert.deepStrictEqual(secondPost?.tags.map((t) => t.name).sort(), [
+          "JS",
+        ]);
+
+        assert.deepStrictEqual(
+          sortedPosts.map((p) => ({
+            title: p?.title,
+            tags: p?.tags.map((t) => t.name).sort(),
+          })),
+          [
+            { title: "Nested Post 1", tags: ["JS", "TS"] },
+            { title: "Nested Post 2", tags: ["JS"] },
+          ]
+        );
+      });
+
+      test("should nest relations of each target table three levels deep", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Deep Author" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("profiles")
+          .values({ user_id: userId, bio: "Deep bio" })
+          .execute();
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Deep B" },
+            { user_id: userId, title: "Deep A" },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasOne, hasMany }) => ({
+          profile: hasOne("profile", {
+            target: "profiles",
+            column: "users.id",
+            reference: "profiles.user_id",
+          }),
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          }),
+        }));
+        const postRelations = relations("posts", ({ belongsTo }) => ({
+          author: belongsTo("author", {
+            target: "users",
+            column: "posts.user_id",
+            reference: "users.id",
+          }),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select([
+            "name",
+            userRelations.posts(
+              (qb) =>
+                qb.select([
+                  "title",
+                  postRelations.author((qb) =>
+                    qb.select([
+                      "name",
+                      userRelations.profile((qb) => qb.select("bio")),
+                    ])
+                  ),
+                ]),
+              { orderBy: ["title"] }
+            ),
+          ])
+          .execute();
+
+        const author = { name: "Deep Author", profile: { bio: "Deep bio" } };
+        assert.deepStrictEqual(result, [
+          {
+            name: "Deep Author",
+            posts: [
+              { title: "Deep A", author },
+              { title: "Deep B", author },
+            ],
+          },
+        ]);
+
+        const bio: string | null | undefined =
+          result[0].posts[0].author?.profile?.bio;
+        assert.strictEqual(bio, "Deep bio");
+      });
+    });
+
+    describe("Self-referential relations", () => {
+      test("should bind the parent column to the outer row", async () => {
+        const [{ id: rootId }] = await db
+          .insertInto("comments")
+          .values({ parent_id: null, body: "Root" })
+          .returning("id")
+          .execute();
+        const [{ id: replyId }] = await db
+          .insertInto("comments")
+          .values({ parent_id: rootId, body: "Reply" })
+          .returning("id")
+          .execute();
+        await db
+          .insertInto("comments")
+          .values({ parent_id: replyId, body: "Nested Reply" })
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const commentRelations = relations(
+          "comments",
+          ({ belongsTo, hasMany }) => ({
+            parent: belongsTo("parent", {
+              target: "comments",
+              column: "comments.parent_id",
+              reference: "comments.id",
+            }),
+            replies: hasMany("replies", {
+              target: "comments",
+              column: "comments.id",
+              reference: "comments.parent_id",
+            }),
+          })
+        );
+
+        const result = await db
+          .selectFrom("comments")
+          .where("id", "=", replyId)
+          .select([
+            "body",
+            commentRelations.parent((qb) => qb.select("comments.body")),
+            commentRelations.replies((qb) =>
+              qb.select([
+                "body",
+                commentRelations.replies((qb) => qb.select("body")),
+              ])
+            ),
+          ])
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          {
+            body: "Reply",
+            parent: { body: "Root" },
+            replies: [{ body: "Nested Reply", replies: [] }],
+          },
+        ]);
+      });
+    });
+
+    describe("Composite-key relations", () => {
+      test("should match every column of the key", async () => {
+        await db
+          .insertInto("accounts")
+          .values([
+            { tenant_id: 1, id: 1, name: "Tenant 1 Account" },
+            { tenant_id: 2, id: 1, name: "Tenant 2 Account" },
+          ])
+          .execute();
+
+        await db
+          .insertInto("documents")
+          .values([
+            { tenant_id: 1, id: 1, account_id: 1, title: "Tenant 1 Doc" },
+            { tenant_id: 2, id: 1, account_id: 1, title: "Tenant 2 Doc" },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const accountRelations = relations("accounts", ({ hasMany }) => ({
+          documents: hasMany("documents", {
+            target: "documents",
+            column: ["accounts.tenant_id", "accounts.id"],
+            reference: ["documents.tenant_id", "documents.account_id"],
+          })((qb) => qb.select("title")),
+        }));
+
+        const result = await db
+          .selectFrom("accounts")
+          .select((eb) => ["name", accountRelations.documents(eb)])
+          .orderBy("tenant_id")
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          { name: "Tenant 1 Account", documents: [{ title: "Tenant 1 Doc" }] },
+          { name: "Tenant 2 Account", documents: [{ title: "Tenant 2 Doc" }] },
+        ]);
+      });
+    });
+
+    describe("Aggregates", () => {
+      test("should count and check existence of related records", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Counted" })
+          .returning("id")
+          .execute();
+        const [{ id: lonelyId }] = await db
+          .insertInto("users")
+          .values({ name: "Lonely" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Post 1", likes: 3 },
+            { user_id: userId, title: "Post 2", likes: 5 },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasMany }) => ({
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          }),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "in", [userId, lonelyId])
+          .select((eb) => [
+            "name",
+            userRelations.posts.count(eb),
+            userRelations.posts.exists(eb),
+            userRelations.posts.max("posts.likes")(eb),
+            userRelations.posts.sum("likes", "totalLikes"),
+          ])
+          .orderBy("id")
+          .execute();
+
+        const postsCount: number = result[0].postsCount;
+        const postsExists: SqlBool = result[0].postsExists;
+        const postsMax: number | null = result[0].postsMax;
+
+        assert.deepStrictEqual(
+          [postsCount, Boolean(postsExists), postsMax],
+          [2, true, 5]
+        );
+        // Dialects without booleans return exists as 0 or 1.
+        assert.deepStrictEqual(
+          result.map((row) => ({
+            ...row,
+            postsExists: Boolean(row.postsExists),
+          })),
+          [
+            {
+              name: "Counted",
+              postsCount: 2,
+              postsExists: true,
+              postsMax: 5,
+              totalLikes: result[0].totalLikes,
+            },
+            {
+              name: "Lonely",
+              postsCount: 0,
+              postsExists: false,
+              postsMax: null,
+              totalLikes: null,
+            },
+          ]
+        );
+        assert.strictEqual(Number(result[0].totalLikes), 8);
+      });
+
+      test("should aggregate the rows of an ordered and limited relation", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Limited" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Post C", likes: 1 },
+            { user_id: userId, title: "Post A", likes: 2 },
+            { user_id: userId, title: "Post B", likes: 4 },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasMany }) => ({
+          posts: hasMany(
+            "posts",
+            {
+              target: "posts",
+              column: "users.id",
+              reference: "posts.user_id",
+            },
+            (qb) => qb.orderBy("title")
+          ),
+          firstPosts: hasMany(
+            "firstPosts",
+            {
+              target: "posts",
+              column: "users.id",
+              reference: "posts.user_id",
+            },
+            (qb) => qb.orderBy("title").limit(2)
+          ),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select((eb) => [
+            userRelations.posts.count(eb),
+            userRelations.posts.sum("posts.likes"),
+            userRelations.firstPosts.count(eb),
+            userRelations.firstPosts.max("posts.likes"),
+            userRelations.firstPosts.sum("likes"),
+          ])
+          .execute();
+
+        assert.deepStrictEqual(
+          result.map((row) => ({
+            ...row,
+            postsSum: Number(row.postsSum),
+            firstPostsSum: Number(row.firstPostsSum),
+          })),
+          [
+            {
+              postsCount: 3,
+              postsSum: 7,
+              firstPostsCount: 2,
+              firstPostsMax: 4,
+              firstPostsSum: 6,
+            },
+          ]
+        );
+      });
+
+      test("should aggregate through a junction table", async () => {
+        const [{ id: tagId }] = await db
+          .insertInto("tags")
+          .values({ name: "Counted Tag" })
+          .returning("id")
+          .execute();
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: null, title: "Tagged Post" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("post_tags")
+          .values({ post_id: postId, tag_id: tagId })
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const postRelations = relations("posts", ({ hasManyThrough }) => ({
+          tags: hasManyThrough("tags", {
+            target: "tags",
+            column: "posts.id",
+            reference: "tags.id",
+            through: "post_tags",
+            throughColumn: "post_tags.post_id",
+            throughReference: "post_tags.tag_id",
+          })((qb) => qb.selectAll()),
+        }));
+
+        const result = await db
+          .selectFrom("posts")
+          .where("id", "=", postId)
+          .select((eb) => [
+            "title",
+            postRelations.tags.count(eb),
+            postRelations.tags.min("tags.name"),
+          ])
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          { title: "Tagged Post", tagsCount: 1, tagsMin: "Counted Tag" },
+        ]);
+      });
+    });
+
+    describe("whereHas", () => {
+      test("should filter parents by related records", async () => {
+        const [{ id: authorId }] = await db
+          .insertInto("users")
+          .values({ name: "Filtered Author" })
+          .returning("id")
+          .execute();
+        const [{ id: otherId }] = await db
+          .insertInto("users")
+          .values({ name: "Filtered Other" })
+          .returning("id")
+          .execute();
+        const [{ id: silentId }] = await db
+          .insertInto("users")
+          .values({ name: "Filtered Silent" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: authorId, title: "Awesome Post" },
+            { user_id: otherId, title: "Boring Post" },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasMany }) => ({
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          }),
+        }));
+
+        const ids = [authorId, otherId, silentId];
+        const withAPosts = await db
+          .selectFrom("users")
+          .where("id", "in", ids)
+          .where((eb) =>
+            userRelations.posts.whereHas(eb, (qb) =>
+              qb.where("title", "like", "A%")
+            )
+          )
+          .select("name")
+          .execute();
+        const withoutPosts = await db
+          .selectFrom("users")
+          .where("id", "in", ids)
+          .where((eb) => userRelations.posts.whereDoesntHave(eb))
+          .select("name")
+          .execute();
+
+        assert.deepStrictEqual(withAPosts, [{ name: "Filtered Author" }]);
+        assert.deepStrictEqual(withoutPosts, [{ name: "Filtered Silent" }]);
+      });
+
+      test("should filter through a junction table", async () => {
+        const [{ id: tagId }] = await db
+          .insertInto("tags")
+          .values({ name: "Filter Tag" })
+          .returning("id")
+          .execute();
+        const [{ id: taggedId }] = await db
+          .insertInto("posts")
+          .values({ user_id: null, title: "Filter Tagged" })
+          .returning("id")
+          .execute();
+        const [{ id: untaggedId }] = await db
+          .insertInto("posts")
+          .values({ user_id: null, title: "Filter Untagged" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("post_tags")
+          .values({ post_id: taggedId, tag_id: tagId })
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const postRelations = relations("posts", ({ hasManyThrough }) => ({
+          tags: hasManyThrough("tags", {
+            target: "tags",
+            column: "posts.id",
+            reference: "tags.id",
+            through: "post_tags",
+            throughColumn: "post_tags.post_id",
+            throughReference: "post_tags.tag_id",
+          }),
+        }));
+
+        const result = await db
+          .selectFrom("posts")
+          .where("id", "in", [taggedId, untaggedId])
+          .where((eb) =>
+            postRelations.tags.whereHas(eb, (qb) =>
+              qb.where("name", "=", "Filter Tag")
+            )
+          )
+          .select("title")
+          .execute();
+
+        assert.deepStrictEqual(result, [{ title: "Filter Tagged" }]);
+      });
+    });
+
+    describe("Ordering and paging", () => {
+      test("should order and limit related records per parent", async () => {
+        const [{ id: firstId }] = await db
+          .insertInto("users")
+          .values({ name: "Paged First" })
+          .returning("id")
+          .execute();
+        const [{ id: secondId }] = await db
+          .insertInto("users")
+          .values({ name: "Paged Second" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: firstId, title: "First A", likes: 1 },
+            { user_id: firstId, title: "First B", likes: 3 },
+            { user_id: firstId, title: "First C", likes: 2 },
+            { user_id: secondId, title: "Second A", likes: 5 },
+            { user_id: secondId, title: "Second B", likes: 4 },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasMany }) => ({
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          }),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "in", [firstId, secondId])
+          .select([
+            "name",
+            userRelations.posts(
+              (qb) =>
+                qb.select(["id", "user_id", "title", "likes", "created_at"]),
+              {
+                orderBy: [["likes", "desc"]],
+                limit: 2,
+              }
+            ),
+          ])
+          .orderBy("id")
+          .execute();
+
+        assert.deepStrictEqual(
+          result.map((user) => user.posts.map((post) => post.title)),
+          [
+            ["First B", "First C"],
+            ["Second A", "Second B"],
+          ]
+        );
+
+        const offsetResult = await db
+          .selectFrom("users")
+          .where("id", "=", firstId)
+          .select(
+            userRelations.posts((qb) => qb.select("title"), {
+              orderBy: ["posts.title"],
+              limit: 2,
+              offset: 1,
+            })
+          )
+          .execute();
+
+        assert.deepStrictEqual(offsetResult, [
+          { posts: [{ title: "First B" }, { title: "First C" }] },
+        ]);
+      });
+
+      test("should offset related records without a limit", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Offset Only" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Offset A" },
+            { user_id: userId, title: "Offset B" },
+            { user_id: userId, title: "Offset C" },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasMany }) => ({
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          }),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select(
+            userRelations.posts((qb) => qb.select("title"), {
+              orderBy: ["posts.title"],
+              offset: 1,
+            })
+          )
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          { posts: [{ title: "Offset B" }, { title: "Offset C" }] },
+        ]);
+
+        const query = createQuery(db, { users: userRelations });
+        const [user] = await query.users.findMany({
+          columns: { name: true },
+          where: (eb) => eb("id", "=", userId),
+          with: {
+            posts: { columns: { title: true }, orderBy: ["title"], offset: 2 },
+          },
+        });
+
+        assert.deepStrictEqual(user, {
+          name: "Offset Only",
+          posts: [{ title: "Offset C" }],
+        });
+
+        const users = await createQuery(
+          db,
+          { users: userRelations },
+          { adapter: database.adapter }
+        ).users.findMany({
+          columns: { name: true },
+          where: (eb) => eb("name", "like", "Offset%"),
+          orderBy: ["name"],
+          offset: 0,
+        });
+
+        assert.deepStrictEqual(users, [{ name: "Offset Only" }]);
+      });
+
+      test("should order records through a junction table", async () => {
+        const tags = await db
+          .insertInto("tags")
+          .values([
+            { name: "Ordered B" },
+            { name: "Ordered C" },
+            { name: "Ordered A" },
+          ])
+          .returning("id")
+          .execute();
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: null, title: "Ordered Post" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("post_tags")
+          .values(tags.map(({ id }) => ({ post_id: postId, tag_id: id })))
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const postRelations = relations("posts", ({ hasManyThrough }) => ({
+          tags: hasManyThrough("tags", {
+            target: "tags",
+            column: "posts.id",
+            reference: "tags.id",
+            through: "post_tags",
+            throughColumn: "post_tags.post_id",
+            throughReference: "post_tags.tag_id",
+          }),
+        }));
+
+        const result = await db
+          .selectFrom("posts")
+          .where("id", "=", postId)
+          .select(
+            postRelations.tags((qb) => qb.select("name"), {
+              orderBy: [["name", "desc"]],
+            })
+          )
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          {
+            tags: [
+              { name: "Ordered C" },
+              { name: "Ordered B" },
+              { name: "Ordered A" },
+            ],
+          },
+        ]);
+      });
+    });
+
+    describe("Parent references", () => {
+      test("should filter related records by parent columns", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Namesake" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Namesake" },
+            { user_id: userId, title: "Something Else" },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasMany, hasOne }) => ({
+          namesakePosts: hasMany(
+            "namesakePosts",
+            {
+              target: "posts",
+              column: "users.id",
+              reference: "posts.user_id",
+            },
+            (qb, parent) => qb.where("title", "=", parent.ref("name"))
+          )((qb) => qb.select("title")),
+          otherPost: hasOne("otherPost", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          })((qb, parent) =>
+            qb.where("title", "!=", parent.ref("users.name")).select("title")
+          ),
+        }));
+
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select((eb) => [
+            userRelations.namesakePosts(eb),
+            userRelations.otherPost(eb),
+          ])
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          {
+            namesakePosts: [{ title: "Namesake" }],
+            otherPost: { title: "Something Else" },
+          },
+        ]);
+      });
+
+      test("should keep parent references bound in self-referential relations", async () => {
+        const [{ id: rootId }] = await db
+          .insertInto("comments")
+          .values({ parent_id: null, body: "Echo" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("comments")
+          .values([
+            { parent_id: rootId, body: "Echo" },
+            { parent_id: rootId, body: "Different" },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const commentRelations = relations("comments", ({ hasMany }) => ({
+          echoes: hasMany(
+            "echoes",
+            {
+              target: "comments",
+              column: "comments.id",
+              reference: "comments.parent_id",
+            },
+            (qb, parent) =>
+              qb.where("comments.body", "=", parent.ref("comments.body"))
+          )((qb) => qb.select("body")),
+        }));
+
+        const result = await db
+          .selectFrom("comments")
+          .where("id", "=", rootId)
+          .select((eb) => commentRelations.echoes(eb))
+          .execute();
+
+        assert.deepStrictEqual(result, [{ echoes: [{ body: "Echo" }] }]);
+      });
+    });
+
+    describe("Deserialization", () => {
+      test("should restore column types of nested relations", async () => {
+        const createdAt = new Date("2024-01-02T03:04:05.000Z");
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Deserialized" })
+          .returning("id")
+          .execute();
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: userId, title: "Dated", created_at: createdAt })
+          .returning("id")
+          .execute();
+        const [{ id: tagId }] = await db
+          .insertInto("tags")
+          .values({ name: "Dated Tag" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("post_tags")
+          .values({ post_id: postId, tag_id: tagId })
+          .execute();
+
+        const relations = createRelationsBuilder<Database>({
+          deserializers: {
+            posts: { created_at: (value) => new Date(value as string) },
+            tags: { name: (value) => (value as string).toUpperCase() },
+          },
+        });
+        const postRelations = relations("posts", ({ hasManyThrough }) => ({
+          tags: hasManyThrough("tags", {
+            target: "tags",
+            column: "posts.id",
+            reference: "tags.id",
+            through: "post_tags",
+            throughColumn: "post_tags.post_id",
+            throughReference: "post_tags.tag_id",
+          }),
+        }));
+        const userRelations = relations("users", ({ hasMany }) => ({
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          }),
+        }));
+
+        const query = db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select([
+            "name",
+            userRelations.posts((qb) =>
+              qb.select([
+                "title",
+                "created_at as createdAt",
+                postRelations.tags((qb) => qb.select(["id", "name"])),
+              ])
+            ),
+          ]);
+
+        const raw = await query.execute();
+        const result = await query.withPlugin(relations.plugin).execute();
+
+        assert.strictEqual(typeof raw[0].posts[0].createdAt, "string");
+        assert.ok(result[0].posts[0].createdAt instanceof Date);
+        assert.deepStrictEqual(result, [
+          {
+            name: "Deserialized",
+            posts: [
+              {
+                title: "Dated",
+                createdAt,
+                tags: [{ id: tagId, name: "DATED TAG" }],
+              },
+            ],
+          },
+        ]);
+      });
+    });
+
+    describe("Relational queries", () => {
+      const relations = createRelationsBuilder<Database>();
+      const userRelations = relations("users", ({ hasOne, hasMany }) => ({
+        profile: hasOne("profile", {
+          target: "profiles",
+          column: "users.id",
+          reference: "profiles.user_id",
+        }),
+        posts: hasMany("posts", {
+          target: "posts",
+          column: "users.id",
+          reference: "posts.user_id",
+        }),
+      }));
+      const postRelations = relations(
+        "posts",
+        ({ belongsTo, hasManyThrough }) => ({
+          author: belongsTo("author", {
+            target: "users",
+            column: "posts.user_id",
+            reference: "users.id",
+          }),
+          tags: hasManyThrough("tags", {
+            target: "tags",
+            column: "posts.id",
+            reference: "tags.id",
+            through: "post_tags",
+            throughColumn: "post_tags.post_id",
+            throughReference: "post_tags.tag_id",
+          }),
+        })
+      );
+
+      test("should load nested relations with findMany", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Queried" })
+          .returning("id")
+          .execute();
+        const posts = await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Queried A", likes: 1 },
+            { user_id: userId, title: "Queried B", likes: 2 },
+          ])
+          .returning("id")
+          .execute();
+        const [{ id: tagId }] = await db
+          .insertInto("tags")
+          .values({ name: "Queried Tag" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("post_tags")
+          .values({ post_id: posts[1].id, tag_id: tagId })
+          .execute();
+
+        const query = createQuery(db, {
+          users: userRelations,
+          posts: postRelations,
+        });
+        const result = await query.users.findMany({
+          columns: { name: true },
+          where: (eb) => eb("id", "=", userId),
+          with: {
+            profile: { columns: { bio: true } },
+            posts: {
+              columns: { title: true },
+              orderBy: [["likes", "desc"]],
+              with: { tags: { columns: { name: true } } },
+            },
+          },
+        });
+
+        assert.deepStrictEqual(result, [
+          {
+            name: "Queried",
+            profile: null,
+            posts: [
+              { title: "Queried B", tags: [{ name: "Queried Tag" }] },
+              { title: "Queried A", tags: [] },
+            ],
+          },
+        ]);
+
+        const title: string = result[0].posts[0].title;
+        const tagName: string = result[0].posts[0].tags[0].name;
+        assert.ok(title && tagName);
+      });
+
+      test("should order and limit root rows and take the first", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "First Author" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Root B" },
+            { user_id: userId, title: "Root A" },
+            { user_id: userId, title: "Root C" },
+          ])
+          .execute();
+
+        const query = createQuery(db, {
+          users: userRelations,
+          posts: postRelations,
+        });
+        const result = await query.posts.findMany({
+          columns: { title: true },
+          where: (eb) => eb("user_id", "=", userId),
+          orderBy: ["title"],
+          limit: 2,
+          offset: 1,
+        });
+
+        assert.deepStrictEqual(result, [
+          { title: "Root B" },
+          { title: "Root C" },
+        ]);
+
+        const first = await query.posts.findFirst({
+          columns: { title: true },
+          where: (eb) => eb("user_id", "=", userId),
+          orderBy: [["title", "desc"]],
+          with: { author: { columns: { name: true } } },
+        });
+
+        assert.deepStrictEqual(first, {
+          title: "Root C",
+          author: { name: "First Author" },
+        });
+
+        const missing = await query.posts.findFirst({
+          where: (eb) => eb("id", "=", -1),
+        });
+
+        assert.strictEqual(missing, undefined);
+      });
+
+      test("should reject unknown relations", () => {
+        const query = createQuery(db, { users: userRelations });
+
+        assert.throws(
+          () =>
+            query.users.findMany({
+              with: { comments: true },
+            } as never),
+          /Unknown relation "comments" on table "users"/
+        );
+      });
+    });
+
+    describe("Batched loading", () => {
+      const relations = createRelationsBuilder<Database>();
+      const userRelations = relations("users", ({ hasOne, hasMany }) => ({
+        profile: hasOne("profile", {
+          target: "profiles",
+          column: "users.id",
+          reference: "profiles.user_id",
+        }),
+        posts: hasMany("posts", {
+          target: "posts",
+          column: "users.id",
+          reference: "posts.user_id",
+        }),
+      }));
+      const postRelations = relations("posts", ({ hasManyThrough }) => ({
+        tags: hasManyThrough("tags", {
+          target: "tags",
+          column: "posts.id",
+          reference: "tags.id",
+          through: "post_tags",
+          throughColumn: "post_tags.post_id",
+          throughReference: "post_tags.tag_id",
+        }),
+      }));
+      const accountRelations = relations("accounts", ({ hasMany }) => ({
+        documents: hasMany(
+          "documents",
+          {
+            target: "documents",
+            column: ["accounts.tenant_id", "accounts.id"],
+            reference: ["documents.tenant_id", "documents.account_id"],
+          },
+          (qb) => qb.where("title", "not like", "Hidden%")
+        ),
+      }));
+
+      function loggedQuery(queries: string[]) {
+        const loggedDb = new Kysely<Database>({
+          dialect: connection.createDialect(),
+          plugins: [...db.getExecutor().plugins],
+          log: (event) => {
+            queries.push(event.query.sql);
+          },
+        });
+
+        return {
+          db: loggedDb,
+          query: createQuery(loggedDb, {
+            users: userRelations,
+            posts: postRelations,
+            accounts: accountRelations,
+          }),
+        };
+      }
+
+      test("should load the same results as json subqueries", async () => {
+        const users = await db
+          .insertInto("users")
+          .values([{ name: "Batch A" }, { name: "Batch B" }])
+          .returning("id")
+          .execute();
+        const userIds = users.map(({ id }) => id);
+        const posts = await db
+          .insertInto("posts")
+          .values([
+            { user_id: userIds[0], title: "Batch A1", likes: 1 },
+            { user_id: userIds[0], title: "Batch A2", likes: 3 },
+            { user_id: userIds[0], title: "Batch A3", likes: 2 },
+            { user_id: userIds[1], title: "Batch B1", likes: 1 },
+          ])
+          .returning("id")
+          .execute();
+        const tags = await db
+          .insertInto("tags")
+          .values([{ name: "Batch X" }, { name: "Batch Y" }])
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("profiles")
+          .values({ user_id: userIds[1], bio: "Batch bio" })
+          .execute();
+        await db
+          .insertInto("post_tags")
+          .values([
+            { post_id: posts[1].id, tag_id: tags[1].id },
+            { post_id: posts[1].id, tag_id: tags[0].id },
+            { post_id: posts[3].id, tag_id: tags[0].id },
+          ])
+          .execute();
+
+        const queries: string[] = [];
+        const { db: loggedDb, query } = loggedQuery(queries);
+        const relationsConfig = {
+          profile: { columns: { bio: true } },
+          posts: {
+            columns: { title: true },
+            orderBy: [["likes", "desc"]],
+            limit: 2,
+            with: {
+              tags: { columns: { name: true }, orderBy: ["name"] },
+            },
+          },
+        } as const;
+
+        const rows = await loggedDb
+          .selectFrom("users")
+          .select(["id", "name"])
+          .where("id", "in", userIds)
+          .orderBy("id")
+          .execute();
+        const loaded = await query.users.load(rows, relationsConfig);
+
+        // The parent query, then profiles, posts, the junction table and tags
+        assert.strictEqual(queries.length, 5);
+
+        const expected = await query.users.findMany({
+          columns: { id: true, name: true },
+          where: (eb) => eb("id", "in", userIds),
+          orderBy: ["id"],
+          with: relationsConfig,
+        });
+
+        assert.deepStrictEqual(loaded, expected);
+        assert.deepStrictEqual(loaded[0].posts, [
+          {
+            title: "Batch A2",
+            tags: [{ name: "Batch X" }, { name: "Batch Y" }],
+          },
+          { title: "Batch A3", tags: [] },
+        ]);
+        assert.deepStrictEqual(loaded[1].profile, { bio: "Batch bio" });
+      });
+
+      test(
+        "should keep native column types",
+        { skip: database.name === "sqlite" && "sqlite has no date type" },
+        async () => {
+          const createdAt = new Date("2024-05-06T07:08:09.000Z");
+          const [{ id: userId }] = await db
+            .insertInto("users")
+            .values({ name: "Batch Dated" })
+            .returning("id")
+            .execute();
+
+          await db
+            .insertInto("posts")
+            .values({
+              user_id: userId,
+              title: "Batch Dated",
+              created_at: createdAt,
+            })
+            .execute();
+
+          const { query } = loggedQuery([]);
+          const [user] = await query.users.load([{ id: userId }], {
+            posts: { columns: { created_at: true } },
+          });
+
+          assert.ok(user.posts[0].created_at instanceof Date);
+          assert.deepStrictEqual(user.posts, [{ created_at: createdAt }]);
+        }
+      );
+
+      test("should split composite keys into chunks", async () => {
+        await db
+          .insertInto("accounts")
+          .values([
+            { tenant_id: 3, id: 1, name: "Batch Tenant 3" },
+            { tenant_id: 4, id: 1, name: "Batch Tenant 4" },
+            { tenant_id: 4, id: 2, name: "Batch Tenant 4 Empty" },
+          ])
+          .execute();
+        await db
+          .insertInto("documents")
+          .values([
+            { tenant_id: 3, id: 1, account_id: 1, title: "Batch Doc 3" },
+            { tenant_id: 4, id: 1, account_id: 1, title: "Batch Doc 4" },
+            { tenant_id: 4, id: 2, account_id: 1, title: "Hidden Doc 4" },
+          ])
+          .execute();
+
+        const queries: string[] = [];
+        const { query } = loggedQuery(queries);
+        const accounts = await query.accounts.findMany({
+          where: (eb) => eb("tenant_id", "in", [3, 4]),
+          orderBy: ["tenant_id", "id"],
+        });
+
+        const loaded = await query.accounts.load(
+          accounts,
+          { documents: { columns: { title: true } } },
+          { chunkSize: 2 }
+        );
+
+        assert.deepStrictEqual(
+          loaded.map(({ name, documents }) => ({ name, documents })),
+          [
+            { name: "Batch Tenant 3", documents: [{ title: "Batch Doc 3" }] },
+            { name: "Batch Tenant 4", documents: [{ title: "Batch Doc 4" }] },
+            { name: "Batch Tenant 4 Empty", documents: [] },
+          ]
+        );
+        // The accounts query, then two chunks of documents
+        assert.strictEqual(queries.length, 3);
+      });
+
+      test("should require the key columns on parent rows", async () => {
+        const { query } = loggedQuery([]);
+
+        await assert.rejects(
+          query.users.load([{ name: "No Id" }], { posts: true }),
+          /Loading "posts" requires the "id" column on the parent rows/
+        );
+      });
+    });
+
+    // Lateral joins are only available in the postgres build.
+    describe(
+      "Schema-qualified tables",
+      { skip: database.name !== "postgres" },
+      () => {
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("app.users", ({ hasMany }) => ({
+          posts: hasMany("posts", {
+            target: "app.posts",
+            column: "app.users.id",
+            reference: "app.posts.user_id",
+          }),
+        }));
+        const postRelations = relations("app.posts", ({ belongsTo }) => ({
+          author: belongsTo("author", {
+            target: "app.users",
+            column: "app.posts.user_id",
+            reference: "app.users.id",
+          }),
+        }));
+
+        before(async () => {
+          for (const statement of [
+            "CREATE SCHEMA app",
+            "CREATE TABLE app.users (id SERIAL PRIMARY KEY, name TEXT NOT NULL)",
+            "CREATE TABLE app.posts (id SERIAL PRIMARY KEY, user_id INTEGER NOT NULL, title TEXT NOT NULL)",
+            "INSERT INTO app.users (id, name) VALUES (1, 'Schema user')",
+            "INSERT INTO app.posts (user_id, title) VALUES (1, 'Schema A'), (1, 'Schema B')",
+          ]) {
+            await sql.raw(statement).execute(db);
+          }
+        });
+
+        test("should alias tables of other schemas", async () => {
+          const result = await db
+            .selectFrom("app.users")
+            .select([
+              "name",
+              userRelations.posts(
+                (qb) =>
+                  qb
+                    .select("title")
+                    .select(
+                      postRelations.author((qb) => qb.select("app.users.name"))
+                    ),
+                { orderBy: ["app.posts.title"] }
+              ),
+              userRelations.posts.count,
+            ])
+            .where((eb) =>
+              userRelations.posts.whereHas(eb, (qb) =>
+                qb.where("app.posts.title", "=", "Schema B")
+              )
+            )
+            .execute();
+
+          assert.deepStrictEqual(result, [
+            {
+              name: "Schema user",
+              posts: [
+                { title: "Schema A", author: { name: "Schema user" } },
+                { title: "Schema B", author: { name: "Schema user" } },
+              ],
+              postsCount: 2,
+            },
+          ]);
+        });
+      }
+    );
+
+    describe("Lateral joins", { skip: database.name !== "postgres" }, () => {
+      test("should join hasMany and hasOne relations laterally", async () => {
+        const [{ id: firstId }, { id: secondId }] = await db
+          .insertInto("users")
+          .values([{ name: "Lateral First" }, { name: "Lateral Second" }])
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("profiles")
+          .values({ user_id: firstId, bio: "Lateral bio" })
+          .execute();
+        await db
+          .insertInto("posts")
+          .values([
+            { user_id: firstId, title: "Lateral A", likes: 1 },
+            { user_id: firstId, title: "Lateral B", likes: 3 },
+            { user_id: firstId, title: "Lateral C", likes: 2 },
+          ])
+          .execute();
+
+        const relations = createPostgresRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasOne, hasMany }) => ({
+          profile: hasOne("profile", {
+            target: "profiles",
+            column: "users.id",
+            reference: "profiles.user_id",
+          }),
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          }),
+        }));
+
+        const query = db
+          .selectFrom("users")
+          .select("name")
+          .where("id", "in", [firstId, secondId])
+          .orderBy("id")
+          .$call((qb) =>
+            userRelations.posts.joinLateral(qb, (qb) => qb.select("title"), {
+              orderBy: [["likes", "desc"]],
+              limit: 2,
+            })
+          )
+          .$call((qb) =>
+            userRelations.profile.joinLateral(qb, (qb) => qb.select("bio"))
+          );
+
+        assert.match(query.compile().sql, /left join lateral/);
+
+        const result = await query.execute();
+
+        assert.deepStrictEqual(result, [
+          {
+            name: "Lateral First",
+            posts: [{ title: "Lateral B" }, { title: "Lateral C" }],
+            profile: { bio: "Lateral bio" },
+          },
+          { name: "Lateral Second", posts: [], profile: null },
+        ]);
+
+        const bio: string | null | undefined = result[0].profile?.bio;
+        assert.strictEqual(bio, "Lateral bio");
+      });
+
+      test("should not repeat parent rows for single relations", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Lateral Twice" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("profiles")
+          .values([
+            { user_id: userId, bio: "x" },
+            { user_id: userId, bio: "y" },
+          ])
+          .execute();
+
+        const relations = createPostgresRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasOne }) => ({
+          profile: hasOne("profile", {
+            target: "profiles",
+            column: "users.id",
+            reference: "profiles.user_id",
+          }),
+        }));
+        const users = db
+          .selectFrom("users")
+          .select("name")
+          .where("id", "=", userId);
+
+        // Both fail the same way instead of returning the user twice.
+        await assert.rejects(
+          users
+            .select(userRelations.profile((qb) => qb.select("bio")))
+            .execute(),
+          /more than one row returned by a subquery/
+        );
+        await assert.rejects(
+          userRelations.profile
+            .joinLateral(users, (qb) => qb.select("bio"))
+            .execute(),
+          /more than one row returned by a subquery/
+        );
+      });
+
+      test("should join hasManyThrough relations and deserialize them", async () => {
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: null, title: "Lateral Tagged" })
+          .returning("id")
+          .execute();
+        const [{ id: tagId }] = await db
+          .insertInto("tags")
+          .values({ name: "Lateral Tag" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("post_tags")
+          .values({ post_id: postId, tag_id: tagId })
+          .execute();
+
+        const relations = createPostgresRelationsBuilder<Database>({
+          deserializers: {
+            tags: { name: (value) => (value as string).toUpperCase() },
+          },
+        });
+        const postRelations = relations("posts", ({ hasManyThrough }) => ({
+          tags: hasManyThrough("tags", {
+            target: "tags",
+            column: "posts.id",
+            reference: "tags.id",
+            through: "post_tags",
+            throughColumn: "post_tags.post_id",
+            throughReference: "post_tags.tag_id",
+          }),
+        }));
+
+        const result = await postRelations.tags
+          .joinLateral(
+            db.selectFrom("posts").select("title").where("id", "=", postId),
+            (qb) => qb.select("name")
+          )
+          .withPlugin(relations.plugin)
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          { title: "Lateral Tagged", tags: [{ name: "LATERAL TAG" }] },
+        ]);
+      });
+    });
+
+    describe("Strict mode", () => {
+      const relations = createRelationsBuilder<Database>({ strict: true });
+      const userRelations = relations("users", ({ hasOne, hasOneNotNull }) => ({
+        profile: hasOne("profile", {
+          target: "profiles",
+          column: "users.id",
+          reference: "profiles.user_id",
+        }),
+        requiredProfile: hasOneNotNull("requiredProfile", {
+          target: "profiles",
+          column: "users.id",
+          reference: "profiles.user_id",
+        }),
+      }));
+      const strictDb = () => db.withoutPlugins().withPlugin(relations.plugin);
+
+      test("should unwrap single rows that pass the checks", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Strict Single" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("profiles")
+          .values({ user_id: userId, bio: "Strict bio" })
+          .execute();
+
+        const result = await strictDb()
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select([
+            "name",
+            userRelations.profile((qb) => qb.select("bio")),
+            userRelations.requiredProfile((qb) => qb.select("bio")),
+          ])
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          {
+            name: "Strict Single",
+            profile: { bio: "Strict bio" },
+            requiredProfile: { bio: "Strict bio" },
+          },
+        ]);
+      });
+
+      test("should reject a missing hasOneNotNull row", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Strict Missing" })
+          .returning("id")
+          .execute();
+
+        const query = strictDb()
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select(userRelations.requiredProfile((qb) => qb.select("bio")));
+
+        await assert.rejects(
+          query.execute(),
+          new RegExp(
+            `Relation "requiredProfile" matched no row for users.id = ${userId}`
+          )
+        );
+
+        const nullable = await strictDb()
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select(userRelations.profile((qb) => qb.select("bio")))
+          .execute();
+
+        assert.deepStrictEqual(nullable, [{ profile: null }]);
+      });
+
+      test("should reject hasOne relations matching several rows", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Strict Duplicate" })
+          .returning("id")
+          .execute();
+
+        await db
+          .insertInto("profiles")
+          .values([
+            { user_id: userId, bio: "First" },
+            { user_id: userId, bio: "Second" },
+          ])
+          .execute();
+
+        const message = new RegExp(
+          `Relation "profile" matched more than one row for users.id = ${userId}`
+        );
+
+        await assert.rejects(
+          strictDb()
+            .selectFrom("users")
+            .where("id", "=", userId)
+            .select(userRelations.profile((qb) => qb.select("bio")))
+            .execute(),
+          message
+        );
+
+        const query = createQuery(db, { users: userRelations });
+
+        await assert.rejects(
+          query.users.load([{ id: userId }], { profile: true }),
+          message
+        );
+      });
+    });
+
+    describe("Polymorphic relations", () => {
+      test("should load notes of several parent tables", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Noted User" })
+          .returning("id")
+          .execute();
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: userId, title: "Noted Post" })
+          .returning("id")
+          .execute();
+
+        // The last note is keyed by the post's id, only its type tells it apart.
+        await db
+          .insertInto("notes")
+          .values([
+            { notable_type: "posts", notable_id: postId, body: "Post note" },
+            { notable_type: "user", notable_id: userId, body: "User note" },
+            { notable_type: "user", notable_id: postId, body: "Other note" },
+          ])
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const postRelations = relations("posts", ({ morphMany }) => ({
+          notes: morphMany("notes", {
+            target: "notes",
+            column: "posts.id",
+            reference: "notes.notable_id",
+            typeColumn: "notes.notable_type",
+          }),
+        }));
+        const userRelations = relations("users", ({ morphOne }) => ({
+          note: morphOne("note", {
+            target: "notes",
+            column: "users.id",
+            reference: "notes.notable_id",
+            typeColumn: "notes.notable_type",
+            type: "user",
+          }),
+        }));
+
+        const posts = await db
+          .selectFrom("posts")
+          .where("id", "=", postId)
+          .select([
+            "title",
+            postRelations.notes((qb) => qb.select("body")),
+            postRelations.notes.count,
+          ])
+          .execute();
+
+        assert.deepStrictEqual(posts, [
+          {
+            title: "Noted Post",
+            notes: [{ body: "Post note" }],
+            notesCount: 1,
+          },
+        ]);
+
+        const users = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select(["name", userRelations.note((qb) => qb.select("body"))])
+          .execute();
+
+        assert.deepStrictEqual(users, [
+          { name: "Noted User", note: { body: "User note" } },
+        ]);
+      });
+
+      test("should resolve morphTo to the table named by the type", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Morph User" })
+          .returning("id")
+          .execute();
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ user_id: userId, title: "Morph Post" })
+          .returning("id")
+          .execute();
+        const notes = await db
+          .insertInto("notes")
+          .values([
+            { notable_type: "posts", notable_id: postId, body: "On post" },
+            { notable_type: "user", notable_id: userId, body: "On user" },
+            { notable_type: "unknown", notable_id: userId, body: "On nothing" },
+          ])
+          .returning("id")
+          .execute();
+
+        const relations = createRelationsBuilder<Database>();
+        const noteRelations = relations("notes", ({ morphTo }) => ({
+          notable: morphTo("notable", {
+            typeColumn: "notes.notable_type",
+            column: "notes.notable_id",
+            targets: { posts: "posts.id", user: "users.id" },
+          }),
+        }));
+
+        const result = await db
+          .selectFrom("notes")
+          .where(
+            "id",
+            "in",
+            notes.map(({ id }) => id)
+          )
+          .select([
+            "body",
+            noteRelations.notable({
+              posts: (qb) => qb.select("title"),
+              user: (qb) => qb.select("name"),
+            }),
+          ])
+          .orderBy("id")
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          { body: "On post", notable: { title: "Morph Post", type: "posts" } },
+          { body: "On user", notable: { name: "Morph User", type: "user" } },
+          { body: "On nothing", notable: null },
+        ]);
+
+        const notable = result[0].notable;
+        const title: string | undefined =
+          notable?.type === "posts" ? notable.title : undefined;
+        assert.strictEqual(title, "Morph Post");
+      });
+    });
+
+    describe("Default scopes", () => {
+      const relations = createRelationsBuilder<Database>({
+        scopes: {
+          tasks: (qb) => qb.where("tasks.deleted_at", "is", null),
+          task_tags: (qb) => qb.where("task_tags.deleted_at", "is", null),
+        },
+      });
+      const userRelations = relations("users", ({ hasMany }) => ({
+        tasks: hasMany("tasks", {
+          target: "tasks",
+          column: "users.id",
+          reference: "tasks.user_id",
+        }),
+      }));
+      const taskRelations = relations("tasks", ({ hasManyThrough }) => ({
+        tags: hasManyThrough("tags", {
+          target: "tags",
+          column: "tasks.id",
+          reference: "tags.id",
+          through: "task_tags",
+          throughColumn: "task_tags.task_id",
+          throughReference: "task_tags.tag_id",
+        }),
+      }));
+      const tagRelations = relations("tags", ({ hasManyThrough }) => ({
+        tasks: hasManyThrough("tasks", {
+          target: "tasks",
+          column: "tags.id",
+          reference: "tasks.id",
+          through: "task_tags",
+          throughColumn: "task_tags.tag_id",
+          throughReference: "task_tags.task_id",
+        }),
+      }));
+      let userId: number;
+      let tagIds: number[];
+
+      before(async () => {
+        [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Scoped User" })
+          .returning("id")
+          .execute();
+        const tasks = await db
+          .insertInto("tasks")
+          .values([
+            { user_id: userId, title: "Open task" },
+            { user_id: userId, title: "Deleted task", deleted_at: new Date() },
+          ])
+          .returning("id")
+          .execute();
+        const tags = await db
+          .insertInto("tags")
+          .values([{ name: "Linked tag" }, { name: "Unlinked tag" }])
+          .returning("id")
+          .execute();
+        tagIds = tags.map(({ id }) => id);
+
+        await db
+          .insertInto("task_tags")
+          .values([
+            { task_id: tasks[0].id, tag_id: tagIds[0] },
+            { task_id: tasks[1].id, tag_id: tagIds[0] },
+            { task_id: tasks[0].id, tag_id: tagIds[1], deleted_at: new Date() },
+          ])
+          .execute();
+      });
+
+      test("should apply the scope of the target table", async () => {
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select([
+            userRelations.tasks((qb) => qb.select("title").orderBy("id")),
+            userRelations.tasks.count,
+          ])
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          { tasks: [{ title: "Open task" }], tasksCount: 1 },
+        ]);
+      });
+
+      test("should leave out the scopes of unscoped relations", async () => {
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select([
+            userRelations.tasks.unscoped((qb) =>
+              qb.select("title").orderBy("id")
+            ),
+            userRelations.tasks.unscoped.count,
+          ])
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          {
+            tasks: [{ title: "Open task" }, { title: "Deleted task" }],
+            tasksCount: 2,
+          },
+        ]);
+      });
+
+      test("should apply the scopes of the through and target tables", async () => {
+        const result = await db
+          .selectFrom("tags")
+          .where("id", "in", tagIds)
+          .select(["name", tagRelations.tasks((qb) => qb.select("title"))])
+          .orderBy("id")
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          { name: "Linked tag", tasks: [{ title: "Open task" }] },
+          { name: "Unlinked tag", tasks: [] },
+        ]);
+
+        const unscoped = await db
+          .selectFrom("tags")
+          .where("id", "in", tagIds)
+          .select([
+            "name",
+            tagRelations.tasks.unscoped((qb) =>
+              qb.select("title").orderBy("id")
+            ),
+          ])
+          .orderBy("id")
+          .execute();
+
+        assert.deepStrictEqual(unscoped, [
+          {
+            name: "Linked tag",
+            tasks: [{ title: "Open task" }, { title: "Deleted task" }],
+          },
+          { name: "Unlinked tag", tasks: [{ title: "Open task" }] },
+        ]);
+
+        const tasks = await db
+          .selectFrom("tasks")
+          .where("user_id", "=", userId)
+          .select(["title", taskRelations.tags((qb) => qb.select("name"))])
+          .orderBy("id")
+          .execute();
+
+        assert.deepStrictEqual(tasks, [
+          { title: "Open task", tags: [{ name: "Linked tag" }] },
+          { title: "Deleted task", tags: [{ name: "Linked tag" }] },
+        ]);
+      });
+
+      test("should apply scopes in relational queries and batched loading", async () => {
+        const query = createQuery(db, { users: userRelations });
+        const users = await query.users.findMany({
+          columns: { name: true },
+          where: (eb) => eb("id", "=", userId),
+          with: {
+            tasks: { columns: { title: true }, orderBy: ["id"] },
+          },
+        });
+
+        assert.deepStrictEqual(users, [
+          { name: "Scoped User", tasks: [{ title: "Open task" }] },
+        ]);
+
+        const loaded = await query.users.load([{ id: userId }], {
+          tasks: { columns: { title: true }, orderBy: ["id"], unscoped: true },
+        });
+
+        assert.deepStrictEqual(loaded, [
+          {
+            id: userId,
+            tasks: [{ title: "Open task" }, { title: "Deleted task" }],
+          },
+        ]);
+      });
+    });
+
+    describe("Nested writes", () => {
+      const relations = createRelationsBuilder<Database>();
+      const userRelations = relations("users", ({ hasMany, hasOne }) => ({
+        profile: hasOne("profile", {
+          target: "profiles",
+          column: "users.id",
+          reference: "profiles.user_id",
+        }),
+        posts: hasMany("posts", {
+          target: "posts",
+          column: "users.id",
+          reference: "posts.user_id",
+        }),
+      }));
+      const postRelations = relations(
+        "posts",
+        ({ belongsTo, hasManyThrough }) => ({
+          author: belongsTo("author", {
+            target: "users",
+            column: "posts.user_id",
+            reference: "users.id",
+          }),
+          tags: hasManyThrough("tags", {
+            target: "tags",
+            column: "posts.id",
+            reference: "tags.id",
+            through: "post_tags",
+            throughColumn: "post_tags.post_id",
+            throughReference: "post_tags.tag_id",
+          }),
+        })
+      );
+
+      async function postTags(postId: number) {
+        const rows = await db
+          .selectFrom("post_tags")
+          .where("post_id", "=", postId)
+          .select("tag_id")
+          .orderBy("tag_id")
+          .execute();
 
-before(async () => {
-  pglite = new PGlite();
-  await pglite.waitReady;
+        return rows.map((row) => row.tag_id);
+      }
 
-  // Create tables
-  await pglite.exec(`
-    CREATE TABLE users (
-      id SERIAL PRIMARY KEY,
-      name TEXT NOT NULL
-    );
+      test("should fill in foreign keys from the parent row", async () => {
+        const user = await db.transaction().execute(async (trx) => {
+          const [user] = await trx
+            .insertInto("users")
+            .values({ name: "Writer" })
+            .returning(["id", "name"])
+            .execute();
 
-    CREATE TABLE profiles (
-      id SERIAL PRIMARY KEY,
-      user_id INTEGER,
-      bio TEXT
-    );
+          await userRelations.profile.create(trx, user, { bio: "Writes" });
+          await userRelations.posts.create(trx, user, [
+            { title: "First draft" },
+            { title: "Second draft" },
+            { title: "Final draft" },
+          ]);
 
-    CREATE TABLE posts (
-      id SERIAL PRIMARY KEY,
-      user_id INTEGER,
-      title TEXT NOT NULL
-    );
+          return user;
+        });
 
-    CREATE TABLE tags (
-      id SERIAL PRIMARY KEY,
-      name TEXT NOT NULL
-    );
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", user.id)
+          .select([
+            "name",
+            userRelations.profile((qb) => qb.select("bio")),
+            userRelations.posts((qb) => qb.select("title").orderBy("id")),
+          ])
+          .execute();
 
-    CREATE TABLE post_tags (
-      id SERIAL PRIMARY KEY,
-      post_id INTEGER,
-      tag_id INTEGER
-    );
-  `);
+        assert.deepStrictEqual(result, [
+          {
+            name: "Writer",
+            profile: { bio: "Writes" },
+            posts: [
+              { title: "First draft" },
+              { title: "Second draft" },
+              { title: "Final draft" },
+            ],
+          },
+        ]);
+      });
 
-  db = new Kysely<Database>({
-    dialect: new PGliteDialect(pglite),
-  });
-});
+      test("should fill in composite keys and polymorphic types", async () => {
+        const accountRelations = relations("accounts", ({ hasMany }) => ({
+          documents: hasMany("documents", {
+            target: "documents",
+            column: ["accounts.tenant_id", "accounts.id"],
+            reference: ["documents.tenant_id", "documents.account_id"],
+          }),
+        }));
+        const postRelations = relations("posts", ({ morphMany }) => ({
+          notes: morphMany("notes", {
+            target: "notes",
+            column: "posts.id",
+            reference: "notes.notable_id",
+            typeColumn: "notes.notable_type",
+          }),
+        }));
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ title: "Annotated" })
+          .returning("id")
+          .execute();
 
-after(async () => {
-  if (pglite) {
-    await pglite.close();
-  }
-});
+        await db
+          .insertInto("accounts")
+          .values({ tenant_id: 5, id: 1, name: "Tenant 5 Account" })
+          .execute();
+        await accountRelations.documents.create(db, [5, 1], {
+          id: 1,
+          title: "Tenant 5 Doc",
+        });
+        await postRelations.notes.create(db, postId, { body: "A note" });
 
-describe("Relations Builder", () => {
-  describe("hasOne", () => {
-    test("should return null when no related record exists", async () => {
-      // Insert a user without a profile
-      await db.insertInto("users").values({ name: "Alice" }).execute();
+        const documents = await db
+          .selectFrom("documents")
+          .where("tenant_id", "=", 5)
+          .selectAll()
+          .execute();
+        const notes = await db
+          .selectFrom("notes")
+          .where("notable_id", "=", postId)
+          .select(["notable_type", "body"])
+          .execute();
 
-      const relations = createRelationsBuilder<Database>();
-      const userRelations = relations("users", ({ hasOne }) => ({
-        profile: hasOne("profile", {
-          target: "profiles",
-          column: "users.id",
-          reference: "profiles.user_id",
-        })((qb) => qb.selectAll()),
-      }));
+        assert.deepStrictEqual(documents, [
+          { tenant_id: 5, id: 1, account_id: 1, title: "Tenant 5 Doc" },
+        ]);
+        assert.deepStrictEqual(notes, [
+          { notable_type: "posts", body: "A note" },
+        ]);
+      });
 
-      const result = await db
-        .selectFrom("users")
-        .select((eb) => ["id", "name", userRelations.profile(eb)])
-        .execute();
+      test("should connect and disconnect existing target rows", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Connected" })
+          .returning("id")
+          .execute();
+        const posts = await db
+          .insertInto("posts")
+          .values([
+            { title: "Loose 1" },
+            { title: "Loose 2" },
+            { title: "Loose 3" },
+          ])
+          .returning("id")
+          .execute();
+        const [one, two, three] = posts.map(({ id }) => id);
+        const userPosts = () =>
+          db
+            .selectFrom("posts")
+            .where("user_id", "=", userId)
+            .select("id")
+            .orderBy("id")
+            .execute()
+            .then((rows) => rows.map(({ id }) => id));
 
-      assert.strictEqual(result.length, 1);
-      assert.strictEqual(result[0].name, "Alice");
-      assert.strictEqual(result[0].profile, null);
-      assert.ok(Number.isInteger(result[0].id));
-      assert.deepStrictEqual(result[0], {
-        id: result[0].id,
-        name: "Alice",
-        profile: null,
+        await userRelations.posts.connect(db, userId, (eb) =>
+          eb("id", "in", [one, two, three])
+        );
+
+        assert.deepStrictEqual(await userPosts(), [one, two, three]);
+
+        await userRelations.posts.disconnect(db, { id: userId }, (eb) =>
+          eb("id", "=", two)
+        );
+
+        assert.deepStrictEqual(await userPosts(), [one, three]);
+
+        await userRelations.posts.disconnect(db, userId);
+
+        assert.deepStrictEqual(await userPosts(), []);
       });
-    });
 
-    test("should return related record when it exists", async () => {
-      // Insert user and profile
-      const [{ id: userId }] = await db
-        .insertInto("users")
-        .values({ name: "Bob" })
-        .returning("id")
-        .execute();
+      test("should associate and dissociate the target of belongsTo", async () => {
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Associated" })
+          .returning("id")
+          .execute();
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ title: "Unowned" })
+          .returning("id")
+          .execute();
+        const postAuthor = () =>
+          db
+            .selectFrom("posts")
+            .where("id", "=", postId)
+            .select("user_id")
+            .executeTakeFirstOrThrow();
 
-      await db
-        .insertInto("profiles")
-        .values({ user_id: userId, bio: "Bob's bio" })
-        .execute();
+        await postRelations.author.associate(
+          db,
+          (eb) => eb("id", "=", postId),
+          { id: userId }
+        );
 
-      const relations = createRelationsBuilder<Database>();
-      const userRelations = relations("users", ({ hasOne }) => ({
-        profile: hasOne("profile", {
-          target: "profiles",
-          column: "users.id",
-          reference: "profiles.user_id",
-        })((qb) => qb.selectAll()),
-      }));
+        assert.deepStrictEqual(await postAuthor(), { user_id: userId });
 
-      const result = await db
-        .selectFrom("users")
-        .where("id", "=", userId)
-        .select((eb) => ["id", "name", userRelations.profile(eb)])
-        .execute();
-
-      assert.strictEqual(result.length, 1);
-      assert.strictEqual(result[0].name, "Bob");
-      assert.ok(result[0].profile);
-      assert.strictEqual(result[0].profile?.user_id, userId);
-      assert.strictEqual(result[0].profile?.bio, "Bob's bio");
-      assert.ok(Number.isInteger(result[0].profile?.id ?? 0));
-      assert.deepStrictEqual(result[0], {
-        id: userId,
-        name: "Bob",
-        profile: {
-          id: result[0].profile?.id,
-          user_id: userId,
-          bio: "Bob's bio",
-        },
+        await postRelations.author.dissociate(db, (eb) =>
+          eb("id", "=", postId)
+        );
+
+        assert.deepStrictEqual(await postAuthor(), { user_id: null });
       });
-    });
 
-    test("should work with custom select", async () => {
-      const [{ id: userId }] = await db
-        .insertInto("users")
-        .values({ name: "Charlie" })
-        .returning("id")
-        .execute();
+      test("should attach, detach and sync through the junction table", async () => {
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ title: "Tagged" })
+          .returning("id")
+          .execute();
+        const tags = await db
+          .insertInto("tags")
+          .values([{ name: "one" }, { name: "two" }, { name: "three" }])
+          .returning("id")
+          .execute();
+        const [one, two, three] = tags.map(({ id }) => id);
 
-      await db
-        .insertInto("profiles")
-        .values({ user_id: userId, bio: "Charlie's bio" })
-        .execute();
+        await db.transaction().execute(async (trx) => {
+          await postRelations.tags.attach(trx, postId, [one, { id: two }]);
+        });
 
-      const relations = createRelationsBuilder<Database>();
-      const userRelations = relations("users", ({ hasOne }) => ({
-        profile: hasOne("profile", {
-          target: "profiles",
-          column: "users.id",
-          reference: "profiles.user_id",
-        })((qb) => qb.select("bio")),
-      }));
+        assert.deepStrictEqual(await postTags(postId), [one, two]);
 
-      const result = await db
-        .selectFrom("users")
-        .where("id", "=", userId)
-        .select((eb) => ["id", userRelations.profile(eb)])
-        .execute();
+        await postRelations.tags.detach(db, { id: postId }, [one]);
 
-      assert.strictEqual(result.length, 1);
-      assert.ok(result[0].profile);
-      assert.strictEqual(result[0].profile.bio, "Charlie's bio");
-      assert.deepStrictEqual(result[0].profile, { bio: "Charlie's bio" });
-    });
-  });
+        assert.deepStrictEqual(await postTags(postId), [two]);
 
-  describe("hasOneNotNull", () => {
-    test("should return related record", async () => {
-      const [{ id: userId }] = await db
-        .insertInto("users")
-        .values({ name: "David" })
-        .returning("id")
-        .execute();
+        const changes = await db
+          .transaction()
+          .execute((trx) => postRelations.tags.sync(trx, postId, [one, three]));
 
-      await db
-        .insertInto("profiles")
-        .values({ user_id: userId, bio: "David's bio" })
-        .execute();
+        assert.deepStrictEqual(changes, {
+          attached: [one, three],
+          detached: [two],
+        });
+        assert.deepStrictEqual(await postTags(postId), [one, three]);
 
-      const relations = createRelationsBuilder<Database>();
-      const userRelations = relations("users", ({ hasOneNotNull }) => ({
-        profile: hasOneNotNull("profile", {
-          target: "profiles",
-          column: "users.id",
-          reference: "profiles.user_id",
-        })((qb) => qb.selectAll()),
-      }));
+        await postRelations.tags.detach(db, postId);
 
-      const result = await db
-        .selectFrom("users")
-        .where("id", "=", userId)
-        .select((eb) => ["id", "name", userRelations.profile(eb)])
-        .execute();
-
-      assert.strictEqual(result.length, 1);
-      assert.ok(result[0].profile);
-      assert.strictEqual(result[0].profile.bio, "David's bio");
-      assert.strictEqual(result[0].profile.user_id, userId);
-      assert.ok(Number.isInteger(result[0].profile.id));
-      assert.deepStrictEqual(result[0], {
-        id: userId,
-        name: "David",
-        profile: {
-          id: result[0].profile.id,
-          user_id: userId,
-          bio: "David's bio",
-        },
+        assert.deepStrictEqual(await postTags(postId), []);
       });
-    });
-  });
 
-  describe("hasMany", () => {
-    test("should return empty array when no related records exist", async () => {
-      await db.insertInto("users").values({ name: "Eve" }).execute();
+      test("should detach duplicate junction rows once when syncing", async () => {
+        const [{ id: postId }] = await db
+          .insertInto("posts")
+          .values({ title: "Twice tagged" })
+          .returning("id")
+          .execute();
+        const [{ id: tagId }] = await db
+          .insertInto("tags")
+          .values({ name: "twice" })
+          .returning("id")
+          .execute();
 
-      const relations = createRelationsBuilder<Database>();
-      const userRelations = relations("users", ({ hasMany }) => ({
-        posts: hasMany("posts", {
-          target: "posts",
-          column: "users.id",
-          reference: "posts.user_id",
-        })((qb) => qb.selectAll()),
-      }));
+        await db
+          .insertInto("post_tags")
+          .values([
+            { post_id: postId, tag_id: tagId },
+            { post_id: postId, tag_id: tagId },
+          ])
+          .execute();
 
-      const result = await db
-        .selectFrom("users")
-        .where("name", "=", "Eve")
-        .select((eb) => ["id", "name", userRelations.posts(eb)])
-        .execute();
-
-      assert.strictEqual(result.length, 1);
-      assert.strictEqual(result[0].name, "Eve");
-      assert.ok(Array.isArray(result[0].posts));
-      assert.strictEqual(result[0].posts.length, 0);
-      assert.deepStrictEqual(result[0], {
-        id: result[0].id,
-        name: "Eve",
-        posts: [],
+        const changes = await db
+          .transaction()
+          .execute((trx) => postRelations.tags.sync(trx, postId, []));
+
+        assert.deepStrictEqual(changes, { attached: [], detached: [tagId] });
+        assert.deepStrictEqual(await postTags(postId), []);
       });
-    });
 
-    test("should return array of related records", async () => {
-      const [{ id: userId }] = await db
-        .insertInto("users")
-        .values({ name: "Frank" })
-        .returning("id")
-        .execute();
-
-      await db
-        .insertInto("posts")
-        .values([
-          { user_id: userId, title: "Post 1" },
-          { user_id: userId, title: "Post 2" },
-          { user_id: userId, title: "Post 3" },
-        ])
-        .execute();
+      test("should require the key columns of parent rows", async () => {
+        await assert.rejects(
+          userRelations.posts.create(db, { name: "Keyless" } as any, {
+            title: "Orphan",
+          }),
+          /Writing "posts" requires the "id" column on the rows/
+        );
+      });
+    });
 
-      const relations = createRelationsBuilder<Database>();
-      const userRelations = relations("users", ({ hasMany }) => ({
-        posts: hasMany("posts", {
-          target: "posts",
+    describe("Pivot columns", () => {
+      const relations = createRelationsBuilder<Database>({
+        deserializers: {
+          user_roles: { granted_at: (value) => new Date(value as string) },
+        },
+      });
+      const userRelations = relations("users", ({ hasManyThrough }) => ({
+        roles: hasManyThrough("roles", {
+          target: "roles",
           column: "users.id",
-          reference: "posts.user_id",
-        })((qb) => qb.selectAll()),
+          reference: "roles.id",
+          through: "user_roles",
+          throughColumn: "user_roles.user_id",
+          throughReference: "user_roles.role_id",
+          pivot: ["granted_by"],
+        }),
+        adminGrantedRoles: hasManyThrough("adminGrantedRoles", {
+          target: "roles",
+          column: "users.id",
+          reference: "roles.id",
+          through: "user_roles",
+          throughColumn: "user_roles.user_id",
+          throughReference: "user_roles.role_id",
+          customizeThrough: (qb) =>
+            qb.where("user_roles.granted_by", "=", "admin"),
+        }),
+        datedRoles: hasManyThrough("datedRoles", {
+          target: "roles",
+          column: "users.id",
+          reference: "roles.id",
+          through: "user_roles",
+          throughColumn: "user_roles.user_id",
+          throughReference: "user_roles.role_id",
+          pivot: ["granted_at"],
+        }),
+        // Both tables have an id column, unqualified it's the junction's.
+        regrantedRoles: hasManyThrough("regrantedRoles", {
+          target: "roles",
+          column: "users.id",
+          reference: "roles.id",
+          through: "user_roles",
+          throughColumn: "user_roles.user_id",
+          throughReference: "user_roles.role_id",
+          customizeThrough: (qb) => qb.where("id", "=", regrantId),
+        }),
       }));
+      const grantedAt = new Date("2024-01-02T03:04:05.000Z");
+      let userId: number;
+      let regrantId: number;
 
-      const result = await db
-        .selectFrom("users")
-        .where("id", "=", userId)
-        .select((eb) => ["id", "name", userRelations.posts(eb)])
-        .execute();
-
-      assert.strictEqual(result.length, 1);
-      assert.strictEqual(result[0].name, "Frank");
-      assert.ok(Array.isArray(result[0].posts));
-      assert.strictEqual(result[0].posts.length, 3);
-      const titles = result[0].posts.map((p) => p?.title);
-      assert.deepStrictEqual(titles, ["Post 1", "Post 2", "Post 3"]);
-      assert.ok(result[0].posts.every((p) => p?.user_id === userId));
-    });
+      before(async () => {
+        [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Role User" })
+          .returning("id")
+          .execute();
+        const [editor, viewer] = await db
+          .insertInto("roles")
+          .values([{ name: "editor" }, { name: "viewer" }])
+          .returning("id")
+          .execute();
 
-    test("should work with query customization", async () => {
-      const [{ id: userId }] = await db
-        .insertInto("users")
-        .values({ name: "Grace" })
-        .returning("id")
-        .execute();
-
-      await db
-        .insertInto("posts")
-        .values([
-          { user_id: userId, title: "America First" },
-          { user_id: userId, title: "America Second" },
-          { user_id: userId, title: "Other Post" },
-        ])
-        .execute();
+        // The editor role is granted twice, both links should show up.
+        const grants = await db
+          .insertInto("user_roles")
+          .values([
+            { user_id: userId, role_id: editor.id, granted_by: "admin" },
+            { user_id: userId, role_id: editor.id, granted_by: "owner" },
+            { user_id: userId, role_id: viewer.id, granted_by: "admin" },
+          ])
+          .returning("id")
+          .execute();
+        regrantId = grants[1].id;
+        await db
+          .updateTable("user_roles")
+          .set({ granted_at: grantedAt })
+          .execute();
+      });
 
-      const relations = createRelationsBuilder<Database>();
-      const userRelations = relations("users", ({ hasMany }) => ({
-        americanPosts: hasMany(
-          "americanPosts",
+      test("should select pivot columns of every junction row", async () => {
+        const [{ roles, rolesCount }] = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select([
+            userRelations.roles((qb) => qb.select("name")),
+            userRelations.roles.count,
+          ])
+          .execute();
+
+        assert.deepStrictEqual(
+          roles
+            .map((role) => `${role.name} by ${role.pivot.granted_by}`)
+            .sort(),
+          ["editor by admin", "editor by owner", "viewer by admin"]
+        );
+        assert.strictEqual(rolesCount, 3);
+      });
+
+      test("should filter junction rows with customizeThrough", async () => {
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select([
+            userRelations.adminGrantedRoles((qb) =>
+              qb.select("name").orderBy("name")
+            ),
+            userRelations.adminGrantedRoles.count,
+          ])
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          {
+            adminGrantedRoles: [{ name: "editor" }, { name: "viewer" }],
+            adminGrantedRolesCount: 2,
+          },
+        ]);
+      });
+
+      test("should only give customizeThrough the through table", async () => {
+        const [{ regrantedRoles, regrantedRolesCount }] = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select([
+            userRelations.regrantedRoles((qb) => qb.select("name")),
+            userRelations.regrantedRoles.count,
+          ])
+          .execute();
+
+        assert.deepStrictEqual(regrantedRoles, [{ name: "editor" }]);
+        assert.strictEqual(regrantedRolesCount, 1);
+
+        const [loaded] = await createQuery(db, {
+          users: userRelations,
+        }).users.load([{ id: userId }], {
+          regrantedRoles: { columns: { name: true } },
+        });
+
+        assert.deepStrictEqual(loaded.regrantedRoles, [{ name: "editor" }]);
+      });
+
+      test("should deserialize pivot columns", async () => {
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select(
+            userRelations.datedRoles((qb) => qb.select("name"), {
+              orderBy: ["name"],
+              limit: 1,
+            })
+          )
+          .withPlugin(relations.plugin)
+          .execute();
+
+        assert.deepStrictEqual(result, [
           {
+            datedRoles: [{ name: "editor", pivot: { granted_at: grantedAt } }],
+          },
+        ]);
+      });
+
+      test("should include pivot columns in relational queries and batched loading", async () => {
+        const query = createQuery(db, { users: userRelations });
+        const [user] = await query.users.findMany({
+          columns: { name: true },
+          where: (eb) => eb("id", "=", userId),
+          with: {
+            roles: { columns: { name: true } },
+            adminGrantedRoles: { columns: { name: true }, orderBy: ["name"] },
+          },
+        });
+
+        assert.deepStrictEqual(
+          user.roles
+            .map((role) => `${role.name} by ${role.pivot.granted_by}`)
+            .sort(),
+          ["editor by admin", "editor by owner", "viewer by admin"]
+        );
+        assert.deepStrictEqual(user.adminGrantedRoles, [
+          { name: "editor" },
+          { name: "viewer" },
+        ]);
+
+        const [loaded] = await query.users.load([{ id: userId }], {
+          roles: { columns: { name: true } },
+          adminGrantedRoles: { columns: { name: true }, orderBy: ["name"] },
+        });
+
+        assert.deepStrictEqual(
+          loaded.roles
+            .map((role) => `${role.name} by ${role.pivot.granted_by}`)
+            .sort(),
+          ["editor by admin", "editor by owner", "viewer by admin"]
+        );
+        assert.deepStrictEqual(loaded.adminGrantedRoles, [
+          { name: "editor" },
+          { name: "viewer" },
+        ]);
+      });
+    });
+
+    describe("Relation chains", () => {
+      const relations = createRelationsBuilder<Database>();
+      const postRelations = relations(
+        "posts",
+        ({ belongsTo, hasManyThrough }) => ({
+          author: belongsTo("author", {
+            target: "users",
+            column: "posts.user_id",
+            reference: "users.id",
+          }),
+          tags: hasManyThrough("tags", {
+            target: "tags",
+            column: "posts.id",
+            reference: "tags.id",
+            through: "post_tags",
+            throughColumn: "post_tags.post_id",
+            throughReference: "post_tags.tag_id",
+          }),
+        })
+      );
+      const userRelations = relations(
+        "users",
+        ({ hasMany, hasOne, hasManyThrough }) => {
+          const posts = hasMany("posts", {
             target: "posts",
             column: "users.id",
             reference: "posts.user_id",
-          },
-          (qb) => qb.where("title", "like", "America%")
-        )((qb) => qb.selectAll()),
-      }));
+          });
 
-      const result = await db
-        .selectFrom("users")
-        .where("id", "=", userId)
-        .select((eb) => ["id", "name", userRelations.americanPosts(eb)])
-        .execute();
-
-      assert.strictEqual(result.length, 1);
-      assert.ok(Array.isArray(result[0].americanPosts));
-      assert.strictEqual(result[0].americanPosts.length, 2);
-      assert.ok(
-        result[0].americanPosts.every((post) =>
-          post.title.startsWith("America")
-        )
+          return {
+            posts,
+            profile: hasOne("profile", {
+              target: "profiles",
+              column: "users.id",
+              reference: "profiles.user_id",
+            }),
+            tags: hasManyThrough("tags", [posts, postRelations.tags]),
+          };
+        }
       );
-      assert.deepStrictEqual(
-        result[0].americanPosts.map((p) => p.title).sort(),
-        ["America First", "America Second"]
+      const chainRelations = relations(
+        "profiles",
+        ({ belongsTo, hasManyThrough }) => ({
+          tags: hasManyThrough("tags", [
+            belongsTo("user", {
+              target: "users",
+              column: "profiles.user_id",
+              reference: "users.id",
+            }),
+            userRelations.posts,
+            postRelations.tags,
+          ]),
+        })
       );
-    });
+      const authorRelations = relations("posts", ({ hasOneThrough }) => ({
+        authorProfile: hasOneThrough("authorProfile", [
+          postRelations.author,
+          userRelations.profile,
+        ]),
+      }));
+      const commentRelations = relations(
+        "comments",
+        ({ belongsTo, hasOneThrough }) => {
+          const parent = belongsTo("parent", {
+            target: "comments",
+            column: "comments.parent_id",
+            reference: "comments.id",
+          });
 
-    test("should work with custom select", async () => {
-      const [{ id: userId }] = await db
-        .insertInto("users")
-        .values({ name: "Henry" })
-        .returning("id")
-        .execute();
-
-      await db
-        .insertInto("posts")
-        .values([
-          { user_id: userId, title: "Post 1" },
-          { user_id: userId, title: "Post 2" },
-        ])
-        .execute();
+          return {
+            grandparent: hasOneThrough("grandparent", [parent, parent]),
+          };
+        }
+      );
+      let userId: number;
+      let postIds: number[];
+      let commentId: number;
 
-      const relations = createRelationsBuilder<Database>();
-      const userRelations = relations("users", ({ hasMany }) => ({
-        posts: hasMany("posts", {
-          target: "posts",
-          column: "users.id",
-          reference: "posts.user_id",
-        })((qb) => qb.select("title")),
-      }));
+      before(async () => {
+        [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Chained" })
+          .returning("id")
+          .execute();
+        await db
+          .insertInto("profiles")
+          .values({ user_id: userId, bio: "Chained bio" })
+          .execute();
+        const posts = await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Chain 1" },
+            { user_id: userId, title: "Chain 2" },
+          ])
+          .returning("id")
+          .execute();
+        postIds = posts.map(({ id }) => id);
+        const tags = await db
+          .insertInto("tags")
+          .values([{ name: "chain-a" }, { name: "chain-b" }])
+          .returning("id")
+          .execute();
 
-      const result = await db
-        .selectFrom("users")
-        .where("id", "=", userId)
-        .select((eb) => ["id", userRelations.posts(eb)])
-        .execute();
-
-      assert.strictEqual(result.length, 1);
-      assert.ok(Array.isArray(result[0].posts));
-      assert.strictEqual(result[0].posts.length, 2);
-      assert.deepStrictEqual(result[0].posts, [
-        { title: "Post 1" },
-        { title: "Post 2" },
-      ]);
-    });
-  });
+        // chain-a is linked to both posts but is a single row of the target.
+        await db
+          .insertInto("post_tags")
+          .values([
+            { post_id: postIds[0], tag_id: tags[0].id },
+            { post_id: postIds[1], tag_id: tags[0].id },
+            { post_id: postIds[1], tag_id: tags[1].id },
+          ])
+          .execute();
 
-  describe("hasManyThrough", () => {
-    test("should return empty array when no related records exist", async () => {
-      const [{ id: postId }] = await db
-        .insertInto("posts")
-        .values({ user_id: null, title: "Test Post" })
-        .returning("id")
-        .execute();
+        const [root] = await db
+          .insertInto("comments")
+          .values({ body: "Chain root" })
+          .returning("id")
+          .execute();
+        const [reply] = await db
+          .insertInto("comments")
+          .values({ parent_id: root.id, body: "Chain reply" })
+          .returning("id")
+          .execute();
+        [{ id: commentId }] = await db
+          .insertInto("comments")
+          .values({ parent_id: reply.id, body: "Chain reply to reply" })
+          .returning("id")
+          .execute();
+      });
 
-      const relations = createRelationsBuilder<Database>();
-      const postRelations = relations("posts", ({ hasManyThrough }) => ({
-        tags: hasManyThrough("tags", {
-          target: "tags",
-          column: "posts.id",
-          reference: "tags.id",
-          through: "post_tags",
-          throughColumn: "post_tags.post_id",
-          throughReference: "post_tags.tag_id",
-        })((qb) => qb.selectAll()),
-      }));
+      test("should return the rows of the last target", async () => {
+        const result = await db
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select([
+            userRelations.tags((qb) => qb.select("name"), {
+              orderBy: ["name"],
+            }),
+            userRelations.tags.count,
+          ])
+          .execute();
+
+        assert.deepStrictEqual(result, [
+          {
+            tags: [{ name: "chain-a" }, { name: "chain-b" }],
+            tagsCount: 2,
+          },
+        ]);
+      });
 
-      const result = await db
-        .selectFrom("posts")
-        .where("id", "=", postId)
-        .select((eb) => ["id", "title", postRelations.tags(eb)])
-        .execute();
+      test("should chain relations of any depth", async () => {
+        const result = await db
+          .selectFrom("profiles")
+          .where("user_id", "=", userId)
+          .select(
+            chainRelations.tags((qb) => qb.select("name").orderBy("name"))
+          )
+          .execute();
 
-      assert.strictEqual(result.length, 1);
-      assert.ok(Array.isArray(result[0].tags));
-      assert.strictEqual(result[0].tags.length, 0);
-      assert.deepStrictEqual(result[0], {
-        id: postId,
-        title: "Test Post",
-        tags: [],
+        assert.deepStrictEqual(result, [
+          { tags: [{ name: "chain-a" }, { name: "chain-b" }] },
+        ]);
+      });
+
+      test("should return a single row with hasOneThrough", async () => {
+        const posts = await db
+          .selectFrom("posts")
+          .where("id", "in", postIds)
+          .select([
+            "title",
+            authorRelations.authorProfile((qb) => qb.select("bio")),
+          ])
+          .orderBy("id")
+          .execute();
+        const comments = await db
+          .selectFrom("comments")
+          .where("parent_id", "is not", null)
+          .where("body", "like", "Chain%")
+          .select([
+            "body",
+            commentRelations.grandparent((qb) => qb.select("body")),
+          ])
+          .orderBy("id")
+          .execute();
+
+        assert.deepStrictEqual(posts, [
+          { title: "Chain 1", authorProfile: { bio: "Chained bio" } },
+          { title: "Chain 2", authorProfile: { bio: "Chained bio" } },
+        ]);
+        assert.deepStrictEqual(comments, [
+          { body: "Chain reply", grandparent: null },
+          { body: "Chain reply to reply", grandparent: { body: "Chain root" } },
+        ]);
+      });
+
+      test("should use chains in relational queries", async () => {
+        const query = createQuery(db, { users: userRelations });
+        const users = await query.users.findMany({
+          columns: { name: true },
+          where: (eb) => eb("id", "=", userId),
+          with: { tags: { columns: { name: true }, orderBy: ["name"] } },
+        });
+
+        assert.deepStrictEqual(users, [
+          { name: "Chained", tags: [{ name: "chain-a" }, { name: "chain-b" }] },
+        ]);
+
+        await assert.rejects(
+          query.users.load([{ id: userId }], { tags: true }),
+          /Loading "tags" in batches is not supported for relation chains/
+        );
       });
-    });
 
-    test("should return array of related records through junction table", async () => {
-      // Create tags
-      const [{ id: tag1Id }] = await db
-        .insertInto("tags")
-        .values({ name: "JavaScript" })
-        .returning("id")
-        .execute();
-      const [{ id: tag2Id }] = await db
-        .insertInto("tags")
-        .values({ name: "TypeScript" })
-        .returning("id")
-        .execute();
-      const [{ id: tag3Id }] = await db
-        .insertInto("tags")
-        .values({ name: "Python" })
-        .returning("id")
-        .execute();
-
-      // Create post
-      const [{ id: postId }] = await db
-        .insertInto("posts")
-        .values({ user_id: null, title: "My Post" })
-        .returning("id")
-        .execute();
-
-      // Link tags to post through junction table
-      await db
-        .insertInto("post_tags")
-        .values([
-          { post_id: postId, tag_id: tag1Id },
-          { post_id: postId, tag_id: tag2Id },
-        ])
-        .execute();
+      test("should reject relations that don't continue the chain", () => {
+        assert.throws(
+          () =>
+            relations("posts", ({ hasManyThrough }) => ({
+              tags: hasManyThrough("tags", [
+                postRelations.tags,
+                userRelations.posts,
+              ]),
+            })),
+          /Relation chain "tags" continues from "users" after reaching "tags"/
+        );
+      });
+    });
 
+    describe("Relation loaders", () => {
       const relations = createRelationsBuilder<Database>();
+      const userRelations = relations("users", ({ hasOne, hasMany }) => ({
+        profile: hasOne("profile", {
+          target: "profiles",
+          column: "users.id",
+          reference: "profiles.user_id",
+        }),
+        posts: hasMany(
+          "posts",
+          {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          },
+          (qb) => qb.where("title", "not like", "Hidden%").orderBy("title")
+        ),
+      }));
       const postRelations = relations("posts", ({ hasManyThrough }) => ({
         tags: hasManyThrough("tags", {
           target: "tags",
@@ -474,182 +3584,140 @@ describe("Relations Builder", () => {
           through: "post_tags",
           throughColumn: "post_tags.post_id",
           throughReference: "post_tags.tag_id",
-        })((qb) => qb.selectAll()),
+        }),
       }));
+      let userIds: number[];
+      let postIds: number[];
 
-      const result = await db
-        .selectFrom("posts")
-        .where("id", "=", postId)
-        .select((eb) => ["id", "title", postRelations.tags(eb)])
-        .execute();
-
-      assert.strictEqual(result.length, 1);
-      assert.ok(Array.isArray(result[0].tags));
-      assert.strictEqual(result[0].tags.length, 2);
-      const tagNames = result[0].tags.map((tag) => tag.name).sort();
-      assert.deepStrictEqual(tagNames, ["JavaScript", "TypeScript"]);
-      const tagIds = result[0].tags.map((tag) => tag.id).sort();
-      assert.deepStrictEqual(tagIds, [tag1Id, tag2Id].sort());
-    });
+      function loggedLoaders(queries: string[]) {
+        const loggedDb = new Kysely<Database>({
+          dialect: connection.createDialect(),
+          plugins: [...db.getExecutor().plugins],
+          log: (event) => {
+            queries.push(event.query.sql);
+          },
+        });
 
-    test("should work with query customization", async () => {
-      const [{ id: tag1Id }] = await db
-        .insertInto("tags")
-        .values({ name: "JavaScript" })
-        .returning("id")
-        .execute();
-      const [{ id: tag2Id }] = await db
-        .insertInto("tags")
-        .values({ name: "TypeScript" })
-        .returning("id")
-        .execute();
-
-      const [{ id: postId }] = await db
-        .insertInto("posts")
-        .values({ user_id: null, title: "Another Post" })
-        .returning("id")
-        .execute();
-
-      await db
-        .insertInto("post_tags")
-        .values([
-          { post_id: postId, tag_id: tag1Id },
-          { post_id: postId, tag_id: tag2Id },
-        ])
-        .execute();
+        return createLoaders(loggedDb, {
+          users: userRelations,
+          posts: postRelations,
+        });
+      }
 
-      const relations = createRelationsBuilder<Database>();
-      const postRelations = relations("posts", ({ hasManyThrough }) => ({
-        jsTags: hasManyThrough(
-          "jsTags",
-          {
-            target: "tags",
-            column: "posts.id",
-            reference: "tags.id",
-            through: "post_tags",
-            throughColumn: "post_tags.post_id",
-            throughReference: "post_tags.tag_id",
-          },
-          (qb) => qb.where("name", "=", "JavaScript")
-        )((qb) => qb.selectAll()),
-      }));
+      before(async () => {
+        const users = await db
+          .insertInto("users")
+          .values([{ name: "Loader A" }, { name: "Loader B" }])
+          .returning("id")
+          .execute();
+        userIds = users.map(({ id }) => id);
+        const posts = await db
+          .insertInto("posts")
+          .values([
+            { user_id: userIds[1], title: "Loader B2" },
+            { user_id: userIds[1], title: "Loader B1" },
+            { user_id: userIds[1], title: "Hidden loader post" },
+            { user_id: userIds[0], title: "Loader A1" },
+          ])
+          .returning("id")
+          .execute();
+        postIds = posts.map(({ id }) => id);
+        const [tag] = await db
+          .insertInto("tags")
+          .values({ name: "Loader tag" })
+          .returning("id")
+          .execute();
 
-      const result = await db
-        .selectFrom("posts")
-        .where("id", "=", postId)
-        .select((eb) => ["id", "title", postRelations.jsTags(eb)])
-        .execute();
-
-      assert.strictEqual(result.length, 1);
-      assert.ok(Array.isArray(result[0].jsTags));
-      assert.strictEqual(result[0].jsTags.length, 1);
-      assert.strictEqual(result[0].jsTags[0]?.name, "JavaScript");
-      assert.deepStrictEqual(result[0].jsTags, [
-        { id: tag1Id, name: "JavaScript" },
-      ]);
-    });
-  });
+        await db
+          .insertInto("profiles")
+          .values({ user_id: userIds[1], bio: "Loader bio" })
+          .execute();
+        await db
+          .insertInto("post_tags")
+          .values({ post_id: postIds[3], tag_id: tag.id })
+          .execute();
+      });
 
-  describe("Multiple relations", () => {
-    test("should handle multiple relations on same query", async () => {
-      const [{ id: userId }] = await db
-        .insertInto("users")
-        .values({ name: "Iris" })
-        .returning("id")
-        .execute();
-
-      await db
-        .insertInto("profiles")
-        .values({ user_id: userId, bio: "Iris's bio" })
-        .execute();
-
-      await db
-        .insertInto("posts")
-        .values([
-          { user_id: userId, title: "Post 1" },
-          { user_id: userId, title: "Post 2" },
-        ])
-        .execute();
+      test("should batch the parents of a tick into one query", async () => {
+        const queries: string[] = [];
+        const loaders = loggedLoaders(queries);
+        // Like resolvers, each parent is loaded on its own after an await.
+        const resolvePosts = async (id: number) => {
+          await Promise.resolve();
+          const posts = await loaders.users.posts.load({ id });
 
-      const relations = createRelationsBuilder<Database>();
-      const userRelations = relations("users", ({ hasOne, hasMany }) => ({
-        profile: hasOne("profile", {
-          target: "profiles",
-          column: "users.id",
-          reference: "profiles.user_id",
-        })((qb) => qb.selectAll()),
-        posts: hasMany("posts", {
-          target: "posts",
-          column: "users.id",
-          reference: "posts.user_id",
-        })((qb) => qb.selectAll()),
-      }));
+          return posts.map(({ title }) => title);
+        };
 
-      const result = await db
-        .selectFrom("users")
-        .where("id", "=", userId)
-        .select((eb) => [
-          "id",
-          "name",
-          userRelations.profile(eb),
-          userRelations.posts(eb),
-        ])
-        .execute();
-
-      assert.strictEqual(result.length, 1);
-      assert.ok(result[0].profile);
-      assert.strictEqual(result[0].profile?.bio, "Iris's bio");
-      assert.ok(Array.isArray(result[0].posts));
-      assert.strictEqual(result[0].posts.length, 2);
-      assert.deepStrictEqual(
-        result[0].posts.map((p) => ({ title: p.title, user_id: p.user_id })),
-        [
-          { title: "Post 1", user_id: userId },
-          { title: "Post 2", user_id: userId },
-        ]
-      );
-    });
-  });
+        const posts = await Promise.all([
+          resolvePosts(userIds[1]),
+          resolvePosts(userIds[0]),
+          resolvePosts(userIds[1]),
+        ]);
 
-  describe("Nested relations", () => {
-    test("should return posts with nested tags", async () => {
-      const [{ id: userId }] = await db
-        .insertInto("users")
-        .values({ name: "NestedUser" })
-        .returning("id")
-        .execute();
-
-      const [{ id: tag1Id }] = await db
-        .insertInto("tags")
-        .values({ name: "JS" })
-        .returning("id")
-        .execute();
-      const [{ id: tag2Id }] = await db
-        .insertInto("tags")
-        .values({ name: "TS" })
-        .returning("id")
-        .execute();
-
-      const [{ id: post1Id }] = await db
-        .insertInto("posts")
-        .values({ user_id: userId, title: "Nested Post 1" })
-        .returning("id")
-        .execute();
-      const [{ id: post2Id }] = await db
-        .insertInto("posts")
-        .values({ user_id: userId, title: "Nested Post 2" })
-        .returning("id")
-        .execute();
-
-      await db
-        .insertInto("post_tags")
-        .values([
-          { post_id: post1Id, tag_id: tag1Id },
-          { post_id: post1Id, tag_id: tag2Id },
-          { post_id: post2Id, tag_id: tag1Id },
-        ])
-        .execute();
+        assert.deepStrictEqual(posts, [
+          ["Loader B1", "Loader B2"],
+          ["Loader A1"],
+          ["Loader B1", "Loader B2"],
+        ]);
+        assert.strictEqual(queries.length, 1);
+      });
+
+      test("should cache results by parent key", async () => {
+        const queries: string[] = [];
+        const loaders = loggedLoaders(queries);
+        const [first] = await loaders.users.profile.loadMany([
+          { id: userIds[1] },
+        ]);
+        const profiles = await loaders.users.profile.loadMany([
+          { id: userIds[0] },
+          { id: userIds[1] },
+        ]);
+
+        assert.strictEqual(profiles[1], first);
+        assert.deepStrictEqual(
+          profiles.map((profile) => profile?.bio ?? null),
+          [null, "Loader bio"]
+        );
+        assert.strictEqual(queries.length, 2);
+
+        loaders.users.profile.clearAll();
+        await loaders.users.profile.load({ id: userIds[1] });
+
+        assert.strictEqual(queries.length, 3);
+      });
+
+      test("should load through relations", async () => {
+        const loaders = loggedLoaders([]);
+        const tags = await loaders.posts.tags.loadMany(
+          postIds.map((id) => ({ id }))
+        );
+
+        assert.deepStrictEqual(
+          tags.map((rows) => rows.map(({ name }) => name)),
+          [[], [], [], ["Loader tag"]]
+        );
+      });
+
+      test("should reject parents without their key columns", async () => {
+        const loaders = loggedLoaders([]);
+
+        await assert.rejects(
+          loaders.users.posts.load({ name: "Loader A" }),
+          /Loading "posts" requires the "id" column on the parent rows/
+        );
+      });
+
+      test("should not treat loaders as promises", async () => {
+        const loaders = loggedLoaders([]);
+        const userLoaders = await (async () => loaders.users)();
+
+        assert.strictEqual(userLoaders.profile, loaders.users.profile);
+        assert.strictEqual(await (async () => loaders)(), loaders);
+      });
+    });
 
+    describe("Cursor pagination", () => {
       const relations = createRelationsBuilder<Database>();
       const postRelations = relations("posts", ({ hasManyThrough }) => ({
         tags: hasManyThrough("tags", {
@@ -659,52 +3727,384 @@ describe("Relations Builder", () => {
           through: "post_tags",
           throughColumn: "post_tags.post_id",
           throughReference: "post_tags.tag_id",
-        })((qb) => qb.selectAll()),
+        }),
       }));
-
       const userRelations = relations("users", ({ hasMany }) => ({
         posts: hasMany("posts", {
           target: "posts",
           column: "users.id",
           reference: "posts.user_id",
-        })((qb) => qb.select((eb) => ["id", "title", postRelations.tags(eb)])),
+        }),
       }));
+      let userId: number;
 
-      const result = await db
-        .selectFrom("users")
-        .where("id", "=", userId)
-        .select((eb) => ["id", "name", userRelations.posts(eb)])
-        .execute();
+      before(async () => {
+        [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Paged" })
+          .returning("id")
+          .execute();
+        const posts = await db
+          .insertInto("posts")
+          .values([
+            { user_id: userId, title: "Paged 1", likes: 3 },
+            { user_id: userId, title: "Paged 2", likes: 5 },
+            { user_id: userId, title: "Paged 3", likes: 3 },
+            { user_id: userId, title: "Paged 4", likes: 1 },
+            { user_id: userId, title: "Paged 5", likes: 5 },
+          ])
+          .returning("id")
+          .execute();
+        const tags = await db
+          .insertInto("tags")
+          .values([{ name: "Paged A" }, { name: "Paged B" }])
+          .returning("id")
+          .execute();
 
-      assert.strictEqual(result.length, 1);
-      assert.strictEqual(result[0].id, userId);
-      assert.strictEqual(result[0].name, "NestedUser");
-      assert.ok(Array.isArray(result[0].posts));
-      assert.strictEqual(result[0].posts.length, 2);
+        await db
+          .insertInto("post_tags")
+          .values(tags.map(({ id }) => ({ post_id: posts[1].id, tag_id: id })))
+          .execute();
+      });
 
-      const sortedPosts = [...result[0].posts].sort((a, b) =>
-        (a?.title ?? "").localeCompare(b?.title ?? "")
-      );
+      const pagedDb = () => db.withoutPlugins().withPlugin(relations.plugin);
+      const pagedPosts = (cursor?: string | null) =>
+        pagedDb()
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select(
+            userRelations.posts.paginate((qb) => qb.select(["title"]), {
+              orderBy: [["likes", "desc"], "id"],
+              limit: 2,
+              cursor,
+            })
+          )
+          .executeTakeFirstOrThrow();
 
-      const [firstPost, secondPost] = sortedPosts;
-      assert.deepStrictEqual(firstPost?.tags.map((t) => t.name).sort(), [
-        "JS",
-        "TS",
-      ]);
-      assert.deepStrictEqual(secondPost?.tags.map((t) => t.name).sort(), [
-        "JS",
-      ]);
-
-      assert.deepStrictEqual(
-        sortedPosts.map((p) => ({
-          title: p?.title,
-          tags: p?.tags.map((t) => t.name).sort(),
-        })),
-        [
-          { title: "Nested Post 1", tags: ["JS", "TS"] },
-          { title: "Nested Post 2", tags: ["JS"] },
-        ]
-      );
+      test("should page through a relation with cursors", async () => {
+        const titles: string[][] = [];
+        let cursor: string | null = null;
+
+        do {
+          const { posts } = await pagedPosts(cursor);
+
+          titles.push(posts.items.map(({ title }) => title));
+          assert.strictEqual(posts.hasMore, posts.nextCursor !== null);
+          cursor = posts.nextCursor;
+        } while (cursor !== null);
+
+        assert.deepStrictEqual(titles, [
+          ["Paged 2", "Paged 5"],
+          ["Paged 1", "Paged 3"],
+          ["Paged 4"],
+        ]);
+      });
+
+      test("should page several relations in one query", async () => {
+        const result = await pagedDb()
+          .selectFrom("users")
+          .where("id", "=", userId)
+          .select([
+            userRelations.posts.paginate(
+              (qb) =>
+                qb.select("title").select(
+                  postRelations.tags.paginate((qb) => qb.select("name"), {
+                    orderBy: ["name"],
+                    limit: 1,
+                  })
+                ),
+              { orderBy: [["likes", "desc"], "id"], limit: 1 }
+            ),
+            userRelations.posts.count,
+          ])
+          .executeTakeFirstOrThrow();
+        const { posts } = result;
+
+        assert.strictEqual(result.postsCount, 5);
+        assert.deepStrictEqual(posts.items, [
+          {
+            title: "Paged 2",
+            tags: {
+              items: [{ name: "Paged A" }],
+              nextCursor: posts.items[0].tags.nextCursor,
+              hasMore: true,
+            },
+          },
+        ]);
+        assert.strictEqual(posts.hasMore, true);
+      });
+
+      test("should page through null ordering values", async () => {
+        const relations = createRelationsBuilder<Database>();
+        const userRelations = relations("users", ({ hasMany }) => ({
+          profiles: hasMany("profiles", {
+            target: "profiles",
+            column: "users.id",
+            reference: "profiles.user_id",
+          }),
+        }));
+        const [{ id: userId }] = await db
+          .insertInto("users")
+          .values({ name: "Paged Nulls" })
+          .returning("id")
+          .execute();
+        const inserted = await db
+          .insertInto("profiles")
+          .values([
+            { user_id: userId, bio: "b" },
+            { user_id: userId, bio: null },
+            { user_id: userId, bio: "a" },
+            { user_id: userId, bio: null },
+          ])
+          .returning("id")
+          .execute();
+
+        for (const limit of [1, 2, 3]) {
+          const ids: number[] = [];
+          let cursor: string | null = null;
+
+          do {
+            const { profiles } = await pagedDb()
+              .selectFrom("users")
+              .where("id", "=", userId)
+              .select(
+                userRelations.profiles.paginate((qb) => qb.select("id"), {
+                  orderBy: ["bio", ["id", "desc"]],
+                  limit,
+                  cursor,
+                })
+              )
+              .executeTakeFirstOrThrow();
+
+            ids.push(...profiles.items.map(({ id }) => id));
+            cursor = profiles.nextCursor;
+          } while (cursor !== null);
+
+          assert.deepStrictEqual(
+            ids,
+            [2, 0, 3, 1].map((i) => inserted[i].id)
+          );
+        }
+      });
+
+      test("should reject invalid cursors", () => {
+        assert.throws(
+          () => pagedPosts("not a cursor"),
+          /Invalid cursor for "posts"/
+        );
+      });
+    });
+
+    describe("Config validation", () => {
+      const relations = createRelationsBuilder<any>();
+      // Like configs built from generated or `any` typed schemas
+      const untyped = (config: object): any => config;
+
+      test("should reject keys of other tables", () => {
+        assert.throws(
+          () =>
+            relations("users", ({ hasMany }) => ({
+              posts: hasMany(
+                "posts",
+                untyped({
+                  target: "posts",
+                  column: "posts.id",
+                  reference: "posts.user_id",
+                })
+              ),
+            })),
+          /Relation "posts" of "users" expects `column` to be columns of "users", got "posts.id"/
+        );
+        assert.throws(
+          () =>
+            relations("posts", ({ belongsTo }) => ({
+              author: belongsTo(
+                "author",
+                untyped({
+                  target: "users",
+                  column: "posts.user_id",
+                  reference: "id",
+                })
+              ),
+            })),
+          /Relation "author" of "posts" expects `reference` to be columns of "users", got "id"/
+        );
+        assert.throws(
+          () =>
+            relations("posts", ({ hasManyThrough }) => ({
+              tags: hasManyThrough(
+                "tags",
+                untyped({
+                  target: "tags",
+                  column: "posts.id",
+                  reference: "tags.id",
+                  through: "post_tags",
+                  throughColumn: "post_tags.post_id",
+                  throughReference: "tags.id",
+                })
+              ),
+            })),
+          /Relation "tags" of "posts" expects `throughReference` to be columns of "post_tags", got "tags.id"/
+        );
+      });
+
+      test("should reject keys of different lengths", () => {
+        assert.throws(
+          () =>
+            relations("accounts", ({ hasMany }) => ({
+              documents: hasMany(
+                "documents",
+                untyped({
+                  target: "documents",
+                  column: ["accounts.tenant_id", "accounts.id"],
+                  reference: "documents.account_id",
+                })
+              ),
+            })),
+          /Relation "documents" of "accounts" expects `reference` to have 2 column\(s\), got 1/
+        );
+      });
+
+      test("should reject missing keys", () => {
+        assert.throws(
+          () =>
+            relations("users", ({ hasOne }) => ({
+              profile: hasOne(
+                "profile",
+                untyped({ target: "profiles", column: "users.id" })
+              ),
+            })),
+          /Relation "profile" of "users" expects `reference` to be a column or a list of columns, got undefined/
+        );
+        assert.throws(
+          () =>
+            relations("users", ({ hasMany }) => ({
+              posts: hasMany(
+                "posts",
+                untyped({
+                  column: "users.id",
+                  reference: "posts.user_id",
+                })
+              ),
+            })),
+          /Relation "posts" of "users" expects `target` to be a table, got undefined/
+        );
+        assert.throws(
+          () =>
+            relations("notes", ({ morphTo }) => ({
+              notable: morphTo(
+                "notable",
+                untyped({
+                  typeColumn: "notes.notable_type",
+                  column: "notes.notable_id",
+                })
+              ),
+            })),
+          /Relation "notable" of "notes" expects `targets` to map types to columns, got undefined/
+        );
+        assert.throws(
+          () =>
+            relations("posts", ({ hasManyThrough }) => ({
+              tags: hasManyThrough(
+                "tags",
+                untyped({
+                  target: "tags",
+                  column: "posts.id",
+                  reference: "tags.id",
+                })
+              ),
+            })),
+          /Relation "tags" of "posts" expects `through` to be a table, got undefined/
+        );
+        assert.throws(
+          () =>
+            relations("posts", ({ hasManyThrough }) => ({
+              tags: hasManyThrough(
+                "tags",
+                untyped({
+                  target: "tags",
+                  column: "posts.id",
+                  reference: "tags.id",
+                  through: "post_tags",
+                  throughColumn: ["post_tags.post_id", 1],
+                  throughReference: "post_tags.tag_id",
+                })
+              ),
+            })),
+          /Relation "tags" of "posts" expects `throughColumn` to be a column or a list of columns, got \["post_tags.post_id",1\]/
+        );
+      });
+
+      test("should reject chains starting from another table", () => {
+        const { posts } = relations("users", ({ hasMany }) => ({
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          }),
+        }));
+
+        assert.throws(
+          () =>
+            relations("profiles", ({ hasManyThrough }) => ({
+              posts: hasManyThrough("posts", [posts]),
+            })),
+          /Relation "posts" of "profiles" starts with a relation of "users"/
+        );
+      });
+
+      test("should check relations against the database schema", async () => {
+        const relations = createRelationsBuilder<any>();
+        relations("users", ({ hasMany, hasManyThrough }) => ({
+          posts: hasMany("posts", {
+            target: "posts",
+            column: "users.id",
+            reference: "posts.user_id",
+          }),
+          roles: hasManyThrough("roles", {
+            target: "roles",
+            column: "users.id",
+            reference: "roles.id",
+            through: "user_roles",
+            throughColumn: "user_roles.user_id",
+            throughReference: "user_roles.role_id",
+            pivot: ["granted_by"],
+          }),
+        }));
+
+        await relations.validate(db);
+
+        relations("posts", ({ belongsTo, hasMany, hasManyThrough }) => ({
+          author: belongsTo("author", {
+            target: "users",
+            column: "posts.author_id",
+            reference: "users.id",
+          }),
+          reviews: hasMany("reviews", {
+            target: "reviews",
+            column: "posts.id",
+            reference: "reviews.post_id",
+          }),
+          roles: hasManyThrough("roles", {
+            target: "roles",
+            column: "posts.id",
+            reference: "roles.id",
+            through: "user_roles",
+            throughColumn: "user_roles.user_id",
+            throughReference: "user_roles.role_id",
+            pivot: ["granted_to"],
+          }),
+        }));
+
+        await assert.rejects(relations.validate(db), {
+          message: [
+            "Relations don't match the database schema:",
+            '  Relation "author" of "posts" references the missing column "posts.author_id"',
+            '  Relation "reviews" of "posts" references the missing table "reviews"',
+            '  Relation "roles" of "posts" references the missing column "user_roles.granted_to"',
+          ].join("\n"),
+        });
+      });
     });
   });
-});
+}
@@ -0,0 +1,84 @@
+import { type SqliteDatabase } from "kysely";
+import initSqlJs, { type BindParams, type Database } from "sql.js";
+
+const sqlJs = initSqlJs();
+
+// Adapts sql.js, sqlite compiled to WebAssembly, to the better-sqlite3
+// interface that kysely's SqliteDialect expects, so sqlite tests need no
+// native dependency and run on every Node version the package supports.
+export async function createSqliteDatabase(): Promise<SqliteDatabase> {
+  const SQL = await sqlJs;
+  const database = new SQL.Database();
+
+  return {
+    close: () => database.close(),
+    prepare: (sql) => {
+      const bind = (parameters: ReadonlyArray<unknown>) =>
+        parameters.map(sqliteValue) as BindParams;
+      const all = (parameters: ReadonlyArray<unknown>) =>
+        withStatement(database, sql, (statement) => {
+          const rows = [];
+
+          statement.bind(bind(parameters));
+
+          while (statement.step()) {
+            rows.push(statement.getAsObject());
+          }
+
+          return rows;
+        });
+
+      return {
+        reader: withStatement(
+          database,
+          sql,
+          (statement) => statement.getColumnNames().length > 0
+        ),
+        all,
+        run: (parameters) => {
+          withStatement(database, sql, (statement) =>
+            statement.run(bind(parameters))
+          );
+
+          return {
+            changes: database.getRowsModified(),
+            lastInsertRowid: Number(
+              database.exec("select last_insert_rowid()")[0].values[0][0]
+            ),
+          };
+        },
+        iterate: function* (parameters) {
+          yield* all(parameters);
+        },
+      };
+    },
+  };
+}
+
+// Statements hold memory outside of the JavaScript heap until they're freed.
+function withStatement<T>(
+  database: Database,
+  sql: string,
+  callback: (statement: ReturnType<Database["prepare"]>) => T
+) {
+  const statement = database.prepare(sql);
+
+  try {
+    return callback(statement);
+  } finally {
+    statement.free();
+  }
+}
+
+// Sqlite has no date or boolean types, store them the way they're read back.
+function sqliteValue(value: unknown) {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (value === undefined) {
+    return null;
+  }
+
+  return typeof value === "boolean" ? Number(value) : value;
+}
@@ -0,0 +1,80 @@
+import { PGlite } from "@electric-sql/pglite";
+import { type Dialect, SqliteDialect } from "kysely";
+import { PGliteDialect } from "kysely-pglite-dialect";
+import { type RelationsAdapter } from "../src/index.js";
+import { postgresAdapter } from "../src/postgres/adapter.js";
+import { sqliteAdapter } from "../src/sqlite/adapter.js";
+import { createSqliteDatabase } from "./sqlite-database.js";
+
+/**
+ * A local database the relations suite runs against.
+ */
+export interface TestDatabase {
+  name: "postgres" | "sqlite";
+  adapter: RelationsAdapter;
+  /**
+   * Whether relations come back as json text, which the relations plugin
+   * parses.
+   */
+  jsonAsText: boolean;
+  /**
+   * Whether relation subqueries can use selectAll().
+   */
+  selectAllInRelations: boolean;
+  /**
+   * Creates a database from a postgres schema, translated where the dialect
+   * differs.
+   */
+  connect(schema: string): Promise<TestConnection>;
+}
+
+export interface TestConnection {
+  /**
+   * Creates a dialect for another Kysely instance on the same database.
+   */
+  createDialect(): Dialect;
+  close(): Promise<void>;
+}
+
+export const testDatabases: TestDatabase[] = [
+  {
+    name: "postgres",
+    adapter: postgresAdapter,
+    jsonAsText: false,
+    selectAllInRelations: true,
+    connect: async (schema) => {
+      const pglite = new PGlite();
+      await pglite.exec(schema);
+
+      return {
+        createDialect: () => new PGliteDialect(pglite),
+        close: () => pglite.close(),
+      };
+    },
+  },
+  {
+    name: "sqlite",
+    adapter: sqliteAdapter,
+    jsonAsText: true,
+    selectAllInRelations: false,
+    connect: async (schema) => {
+      const database = await createSqliteDatabase();
+      const statements = schema
+        .replaceAll("SERIAL PRIMARY KEY", "INTEGER PRIMARY KEY")
+        .replaceAll("TIMESTAMPTZ", "TEXT")
+        .replaceAll("now()", "CURRENT_TIMESTAMP")
+        .split(";");
+
+      for (const statement of statements) {
+        if (statement.trim()) {
+          database.prepare(statement).run([]);
+        }
+      }
+
+      return {
+        createDialect: () => new SqliteDialect({ database }),
+        close: async () => database.close(),
+      };
+    },
+  },
+];